@@ -1,8 +1,10 @@
 import { NextResponse } from "next/server";
 
 import { analyzeProduct } from "@/lib/analyzePipeline";
+import { parseBuyerProfile } from "@/lib/buyerProfile";
+import type { BuyerProfile } from "@/lib/buyerProfile";
 import { fetchPageHtml } from "@/lib/server/fetchPage";
-import { extractProductInfoServer } from "@/lib/server/extractProductInfo";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
 
 const encoder = new TextEncoder();
 
@@ -19,7 +21,7 @@ const sendEvent = (
   );
 };
 
-async function streamAnalysis(url: string) {
+async function streamAnalysis(url: string, profile: BuyerProfile) {
   return new ReadableStream({
     async start(controller) {
       const sendActivity: SendActivity = (message) =>
@@ -61,15 +63,17 @@ async function streamAnalysis(url: string) {
         const pageResult = await withHeartbeat("Fetching product page", () =>
           fetchPageHtml(url)
         );
-        if (!pageResult.blocked && pageResult.html) {
-          sendActivity("Extracting product title, price and description");
-          extractProductInfoServer(pageResult.html);
-        } else {
-          sendActivity("Extracting product title, price and description");
-        }
+        sendActivity("Extracting product title, price and description");
+        const pageInfo =
+          !pageResult.blocked && pageResult.html
+            ? extractProductInfo(pageResult.html, url)
+            : null;
 
         const result = await analyzeProduct(url, {
           emitValidationStep: false,
+          pageHtml: pageResult.blocked ? null : (pageResult.html ?? null),
+          pageInfo,
+          profile,
           onActivity: (message) => {
             sendActivity(message);
           },
@@ -92,8 +96,10 @@ async function streamAnalysis(url: string) {
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
   const url = searchParams.get("url") ?? "";
+  // The profile travels as JSON in a query parameter, e.g. for EventSource.
+  const profile = parseBuyerProfile(searchParams.get("profile"));
 
-  const stream = await streamAnalysis(url);
+  const stream = await streamAnalysis(url, profile);
   return new Response(stream, {
     headers: {
       "Content-Type": "text/event-stream",
@@ -104,15 +110,15 @@ export async function GET(request: Request) {
 }
 
 export async function POST(request: Request) {
-  let body: { url?: string };
+  let body: { url?: string; profile?: unknown };
   try {
-    body = (await request.json()) as { url?: string };
+    body = (await request.json()) as { url?: string; profile?: unknown };
   } catch {
     return NextResponse.json({ blocked: true });
   }
 
   const url = typeof body.url === "string" ? body.url.trim() : "";
-  const stream = await streamAnalysis(url);
+  const stream = await streamAnalysis(url, parseBuyerProfile(body.profile));
   return new Response(stream, {
     headers: {
       "Content-Type": "text/event-stream",
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 
+import { parseBuyerProfile } from "@/lib/buyerProfile";
+import { DEFAULT_RULE_SET } from "@/lib/rules";
 import type { RuleFlag } from "@/lib/rules";
 import { analyzeProduct } from "@/lib/analyzePipeline";
 import { explainFlags } from "@/lib/explain";
@@ -7,14 +9,17 @@ import { explainFlags } from "@/lib/explain";
 export async function POST(request: Request) {
   const startedAt = Date.now();
 
-  let body: { url?: string };
+  let body: { url?: string; profile?: unknown };
   try {
-    body = (await request.json()) as { url?: string };
+    body = (await request.json()) as { url?: string; profile?: unknown };
   } catch {
     return NextResponse.json({
       verdict: "unclear",
+      confidence: "low",
+      trust: null,
       flags: ["analysis_failed" as RuleFlag],
       explanations: explainFlags(["analysis_failed"]),
+      rulesVersion: DEFAULT_RULE_SET.version,
       processingMs: Date.now() - startedAt,
       steps: [],
       insight: null,
@@ -23,6 +28,8 @@ export async function POST(request: Request) {
         price: null,
         description: "",
         flags: [],
+        conflicts: [],
+        matches: [],
         hiddenFindings: [],
         policyStatus: "missing",
       },
@@ -33,14 +40,19 @@ export async function POST(request: Request) {
   const url = typeof body.url === "string" ? body.url.trim() : "";
 
   try {
-    const result = await analyzeProduct(url);
+    const result = await analyzeProduct(url, {
+      profile: parseBuyerProfile(body.profile),
+    });
     return NextResponse.json(result);
   } catch (error) {
     const processingMs = Date.now() - startedAt;
     return NextResponse.json({
       verdict: "unclear",
+      confidence: "low",
+      trust: null,
       flags: ["analysis_failed" as RuleFlag],
       explanations: explainFlags(["analysis_failed"]),
+      rulesVersion: DEFAULT_RULE_SET.version,
       processingMs,
       steps: [],
       insight: null,
@@ -49,6 +61,8 @@ export async function POST(request: Request) {
         price: null,
         description: "",
         flags: [],
+        conflicts: [],
+        matches: [],
         hiddenFindings: [],
         policyStatus: "missing",
       },
@@ -4,13 +4,17 @@ import { AnimatePresence, motion, useReducedMotion } from "framer-motion";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { CSSProperties } from "react";
 
-import type { RuleFlag } from "@/lib/rules";
-import { extractProductInfoFromHTML } from "@/lib/client/extractProductInfo";
+import type { RuleConflict, RuleFlag, RuleMatch } from "@/lib/rules";
+import type { TrustScore } from "@/lib/trustScore";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
 
 type AnalyzeResponse = {
   verdict: "good" | "caution" | "risk" | "unclear";
+  confidence?: "standard" | "low";
+  trust?: TrustScore | null;
   flags: RuleFlag[];
   explanations: string[];
+  rulesVersion?: string;
   processingMs?: number;
   previewImage?: string | null;
   steps?: Array<{
@@ -31,6 +35,8 @@ type AnalyzeResponse = {
     price: string | null;
     description: string;
     flags: RuleFlag[];
+    conflicts?: RuleConflict[];
+    matches?: RuleMatch[];
     hiddenFindings: string[];
     policyStatus: "present" | "missing";
   };
@@ -159,7 +165,7 @@ export default function HomePage() {
         if (pageData.blocked || !pageData.html) {
           setProductInfo((prev) => ({ ...prev, status: "blocked" }));
         } else {
-          const extracted = extractProductInfoFromHTML(pageData.html, url);
+          const extracted = extractProductInfo(pageData.html, url);
           setProductInfo({
             status: "ready",
             title: extracted.title,
@@ -1104,6 +1110,17 @@ export default function HomePage() {
                       >
                         {verdictConfig.label}
                       </p>
+                      {result.trust ? (
+                        <p className="text-sm text-slate-300">
+                          Trust score{" "}
+                          <span
+                            className={`text-lg font-semibold ${verdictConfig.accent}`}
+                          >
+                            {result.trust.score}
+                          </span>
+                          <span className="text-slate-500"> / 100</span>
+                        </p>
+                      ) : null}
                       <p className="max-w-sm text-sm text-slate-300">
                         {result.insight?.message ??
                           "No conflicting policy signals detected."}
@@ -1113,6 +1130,12 @@ export default function HomePage() {
                           {result.insight.summary}
                         </p>
                       ) : null}
+                      {result.confidence === "low" ? (
+                        <p className="max-w-sm rounded-full border border-amber-400/30 bg-amber-500/10 px-3 py-1 text-[11px] text-amber-200">
+                          Lower confidence: analyzed from the page HTML
+                          without the policy agent.
+                        </p>
+                      ) : null}
                     </motion.div>
                     {result.details ? (
                       <motion.div
@@ -1173,6 +1196,61 @@ export default function HomePage() {
                             )}
                           </ul>
                         </div>
+                        {result.details.conflicts?.length ? (
+                          <div className="mt-4">
+                            <p className="text-sm font-semibold text-slate-300">
+                              Evidence
+                            </p>
+                            <ul className="mt-2 space-y-2 text-xs text-slate-400">
+                              {result.details.conflicts.map((conflict, index) => (
+                                <li
+                                  key={`${conflict.flag}-${conflict.claimField}-${index}`}
+                                  className="rounded-xl border border-white/10 bg-black/20 px-3 py-2"
+                                >
+                                  <p className="text-slate-300">{conflict.flag}</p>
+                                  <p>{conflict.reason}</p>
+                                  <p>
+                                    Product: {conflict.claim?.snippet ?? "not stated"}
+                                  </p>
+                                  <p>
+                                    Policy: {conflict.policy?.snippet ?? "not stated"}
+                                  </p>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : null}
+                        {result.trust?.contributions.length ? (
+                          <div className="mt-4">
+                            <p className="text-sm font-semibold text-slate-300">
+                              Score breakdown
+                            </p>
+                            <ul className="mt-2 space-y-1 text-xs text-slate-400">
+                              <li className="flex justify-between gap-3">
+                                <span>Starting score</span>
+                                <span>{result.trust.base}</span>
+                              </li>
+                              {result.trust.contributions.map((contribution) => (
+                                <li
+                                  key={contribution.id}
+                                  className="flex justify-between gap-3"
+                                >
+                                  <span>{contribution.reason}</span>
+                                  <span
+                                    className={
+                                      contribution.points > 0
+                                        ? "text-emerald-300"
+                                        : "text-rose-300"
+                                    }
+                                  >
+                                    {contribution.points > 0 ? "+" : ""}
+                                    {contribution.points}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ) : null}
                         <div className="mt-4">
                           <p className="text-sm font-semibold text-slate-300">
                             Hidden costs or claims
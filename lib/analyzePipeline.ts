@@ -1,9 +1,32 @@
+import type { BuyerProfile } from "@/lib/buyerProfile";
 import { explainFlags } from "@/lib/explain";
-import { extractClaims, extractPolicy } from "@/lib/extract";
-import { runMinoAgent } from "@/lib/mino";
-import { detectContradictions } from "@/lib/rules";
+import {
+  applyListPrice,
+  applyPreselectedAddon,
+  applyStructuredData,
+  extractClaims,
+  extractPolicy,
+} from "@/lib/extract";
+import { parseHtml, visibleText } from "@/lib/html";
+import type { MinoPolicyPage, MinoResult } from "@/lib/mino";
+import { formatMoney } from "@/lib/money";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
+import type { ProductInfo } from "@/lib/product/types";
+import { DEFAULT_RULE_SET, detectContradictions } from "@/lib/rules";
 import type { RuleFlag } from "@/lib/rules";
+import { fetchPageHtml } from "@/lib/server/fetchPage";
+import {
+  checkExpectation,
+  findFixture,
+  fixtureProvider,
+} from "@/lib/server/fixtures";
+import { getPageProvider } from "@/lib/server/pageProviders";
+import { fetchPlatformData } from "@/lib/server/platform";
+import { discoverPolicyPages } from "@/lib/server/policyDiscovery";
+import { mergeStructured, offerMoney } from "@/lib/structuredData";
+import type { StructuredProduct } from "@/lib/structuredData";
 import { buildProductDetails, buildProductInsight } from "@/lib/summary";
+import type { TrustScore } from "@/lib/trustScore";
 
 type StepStatus = "done" | "failed";
 
@@ -14,10 +37,18 @@ export type TraceStep = {
   detail?: string;
 };
 
+// "low" means the page was analyzed without a page provider: only the raw
+// HTML and whatever policy pages could be fetched directly.
+export type AnalyzeConfidence = "standard" | "low";
+
 export type AnalyzeResult = {
   verdict: "good" | "caution" | "risk" | "unclear";
+  confidence: AnalyzeConfidence;
+  // Null when the analysis didn't get as far as running the rules.
+  trust: TrustScore | null;
   flags: RuleFlag[];
   explanations: string[];
+  rulesVersion: string;
   processingMs: number;
   steps: TraceStep[];
   insight: ReturnType<typeof buildProductInsight> | null;
@@ -38,24 +69,11 @@ type AnalyzeOptions = {
   onActivity?: (message: string) => void;
   onLongStep?: (title: string) => void;
   emitValidationStep?: boolean;
-};
-
-const TEST_CASES: Record<string, { productText: string; policyText: string }> = {
-  "https://example.com/product/clear": {
-    productText:
-      "In stock. Returns accepted within 30 days. 1 year warranty included.",
-    policyText:
-      "Return policy: returns accepted within 30 days. Warranty lasts 12 months.",
-  },
-  "https://example.com/product/conflict": {
-    productText: "Price match guarantee. In stock. Free returns in 30 days.",
-    policyText:
-      "Prices subject to change without notice. Availability not guaranteed.",
-  },
-  "https://example.com/product/unclear": {
-    productText: "Warranty included.",
-    policyText: "",
-  },
+  // Product page HTML the caller already fetched; fetched here when omitted.
+  pageHtml?: string | null;
+  // What the caller already read from pageHtml; read here when omitted.
+  pageInfo?: ProductInfo | null;
+  profile?: BuyerProfile;
 };
 
 const createStepEvent = (
@@ -70,6 +88,20 @@ const createStepEvent = (
   message,
 });
 
+const mergePolicyPages = (...groups: MinoPolicyPage[][]) => {
+  const seen = new Set<string>();
+  return groups.flat().filter((page) => {
+    if (seen.has(page.url)) return false;
+    seen.add(page.url);
+    return true;
+  });
+};
+
+const structuredPrice = (product: StructuredProduct | null) => {
+  const money = offerMoney(product);
+  return money ? formatMoney(money) : undefined;
+};
+
 export async function analyzeProduct(
   url: string,
   options: AnalyzeOptions = {}
@@ -106,12 +138,22 @@ export async function analyzeProduct(
     const processingMs = Date.now() - startedAt;
     return {
       verdict,
+      confidence: "low",
+      trust: null,
       flags,
       explanations: explainFlags(flags),
+      rulesVersion: DEFAULT_RULE_SET.version,
       processingMs,
       steps,
       insight: null,
-      details: buildProductDetails(url, "", "", flags, {}, {}),
+      details: buildProductDetails(
+        url,
+        "",
+        "",
+        { flags, conflicts: [], matches: [] },
+        { evidence: {} },
+        { evidence: {} }
+      ),
       previewImage: null,
     };
   };
@@ -165,107 +207,106 @@ export async function analyzeProduct(
     return respond(["invalid_url"]);
   }
 
-  const testCase = TEST_CASES[url];
-  if (process.env.NODE_ENV !== "production") {
-    if (!testCase) {
-      steps.push({
-        name: "Load test case",
-        status: "failed",
-        detail: "Unknown test URL",
-      });
-      return respond(["dev_only"]);
-    }
-    steps.push({ name: "Load test case", status: "done" });
-
-    sendStep("extract_rules", "📄", "Extracting eligibility and exclusion rules");
-    sendActivity("Extracting eligibility and exclusion rules");
-    const claims = await trackStep("Extract claims", () =>
-      extractClaims(testCase.productText)
-    );
-    const policy = await trackStep("Extract policy", () =>
-      extractPolicy(testCase.policyText)
-    );
+  const fixture = findFixture(url);
+  if (fixture) {
+    steps.push({ name: "Load fixture", status: "done", detail: fixture.name });
+  }
 
-    sendStep("parse_documents", "🧾", "Parsing uploaded documents and OCR text");
-    sendActivity("Parsing uploaded documents and OCR text");
-    sendStep("analyze_rules", "⚙️", "Matching rules with user profile");
-    sendActivity("Matching rules with user profile");
-    const rules = await withHeartbeat("Evaluating eligibility rules", () =>
-      trackStep("Detect contradictions", () =>
-        detectContradictions(claims, policy)
-      )
-    );
-    sendStep(
-      "risk_update",
-      "⚠️",
-      `Risk update: ${rules.verdict.toUpperCase()} • ${rules.flags.length} flag${
-        rules.flags.length === 1 ? "" : "s"
-      }`
-    );
+  const pageHtml =
+    options.pageHtml !== undefined
+      ? options.pageHtml
+      : await trackStep("Fetch product page", async () => {
+          const page = await fetchPageHtml(url);
+          return page.blocked ? null : (page.html ?? null);
+        }).catch(() => null);
+  const platform = pageHtml
+    ? await withHeartbeat("Checking store platform", () =>
+        trackStep("Fetch store platform pages", () =>
+          fetchPlatformData(url, pageHtml)
+        )
+      ).catch(() => null)
+    : null;
+  if (platform) {
     sendActivity(
-      `Risk update: ${rules.verdict.toUpperCase()} • ${rules.flags.length} flag${
-        rules.flags.length === 1 ? "" : "s"
+      `Detected ${platform.platform} store • ${platform.policyPages.length} policy page${
+        platform.policyPages.length === 1 ? "" : "s"
       }`
     );
-    const explanations = await trackStep("Explain flags", () =>
-      explainFlags(rules.flags)
+  }
+  const discovered = pageHtml
+    ? await withHeartbeat("Discovering policy pages", () =>
+        trackStep("Discover policy pages", () =>
+          discoverPolicyPages(url, pageHtml, {
+            exclude: platform?.policyPages.map((page) => page.url),
+          })
+        )
+      ).catch((): MinoPolicyPage[] => [])
+    : [];
+  const sitePages = mergePolicyPages(platform?.policyPages ?? [], discovered);
+  if (discovered.length) {
+    sendActivity(
+      `Found ${discovered.length} policy page${
+        discovered.length === 1 ? "" : "s"
+      } linked from the product page`
     );
-    sendStep("finalize", "📊", "Compiling rejection reasons and recommendations");
-    sendActivity("Compiling rejection reasons and recommendations");
+  }
 
-    const insight =
-      rules.flags.length === 0
-        ? buildProductInsight(
-            testCase.productText,
-            testCase.policyText,
-            claims,
-            policy
-          )
-        : null;
-    sendStep(
-      "insight_update",
-      "💡",
-      insight?.message ??
-        "Insights limited due to detected policy conflicts."
-    );
+  const provider = fixture ? fixtureProvider(fixture) : getPageProvider();
+  let captured: MinoResult | null = null;
+  if (provider.isConfigured()) {
+    sendStep("call_mino", "🤖", `Sending pages to ${provider.label}`);
+    sendActivity(`Sending pages to ${provider.label}`);
+    captured = await withHeartbeat("Calling policy analysis engine", () =>
+      trackStep(`Fetch ${provider.label} data`, () => provider.capture(url))
+    ).catch(() => null);
+    if (!captured) {
+      sendActivity(
+        `${provider.label} unavailable, analyzing the page directly`
+      );
+    }
+  } else {
+    steps.push({
+      name: `Fetch ${provider.label} data`,
+      status: "failed",
+      detail: "Not configured",
+    });
     sendActivity(
-      insight?.message ??
-        "Insights limited due to detected policy conflicts."
-    );
-    const details = buildProductDetails(
-      url,
-      testCase.productText,
-      testCase.policyText,
-      rules.flags,
-      claims,
-      policy
+      `${provider.label} not configured, analyzing the page directly`
     );
-
-    return {
-      verdict: rules.verdict,
-      flags: rules.flags,
-      explanations,
-      processingMs: Date.now() - startedAt,
-      steps,
-      insight,
-      details,
-      previewImage: null,
-    };
+  }
+  if (!captured && !pageHtml) {
+    throw new Error("Product page could not be fetched");
   }
 
-  sendStep("call_mino", "🤖", "Sending pages to Mino agent");
-  sendActivity("Sending pages to Mino agent");
-  const mino = await withHeartbeat("Calling policy analysis engine", () =>
-    trackStep("Fetch Mino data", () => runMinoAgent(url))
-  );
+  // Without a provider the comparison still runs on the fetched HTML, the
+  // platform endpoints and discovered policy pages, at lower confidence.
+  const confidence: AnalyzeConfidence = captured ? "standard" : "low";
+  const pageInfo =
+    options.pageInfo !== undefined
+      ? options.pageInfo
+      : pageHtml
+        ? extractProductInfo(pageHtml, url)
+        : null;
+  const mino: MinoResult = captured ?? {
+    productUrl: url,
+    productText: [
+      pageHtml ? visibleText(parseHtml(pageHtml)) : "",
+      platform?.product?.description ?? "",
+    ].join("\n"),
+    policyPages: [],
+    productTitle: pageInfo?.title ?? undefined,
+    productPrice: pageInfo?.price ?? undefined,
+    productDescription: pageInfo?.description ?? undefined,
+  };
+  const policyPages = mergePolicyPages(mino.policyPages, sitePages);
 
   sendStep("collect_pages", "📚", "Collecting eligibility and exclusion pages");
   sendActivity("Collecting eligibility and exclusion pages");
   const policyText = await trackStep("Compile policy text", () => {
-    const total = mino.policyPages.length;
+    const total = policyPages.length;
     if (total > 0) {
       let combined = "";
-      mino.policyPages.forEach((page, index) => {
+      policyPages.forEach((page, index) => {
         sendActivity(`Processing item ${index + 1} of ${total}`);
         combined += `${page.text}\n`;
       });
@@ -276,9 +317,23 @@ export async function analyzeProduct(
 
   sendStep("extract_rules", "📄", "Extracting eligibility and exclusion rules");
   sendActivity("Extracting eligibility and exclusion rules");
-  const claims = await trackStep("Extract claims", () =>
-    extractClaims(mino.productText)
+  const structured = mergeStructured(
+    pageInfo?.structured ?? null,
+    platform?.product ?? null
   );
+  const listPrice = pageInfo?.listMoney ?? null;
+  const claims = await trackStep("Extract claims", () => {
+    const extracted = extractClaims(mino.productText);
+    const withStructured = structured
+      ? applyStructuredData(extracted, structured)
+      : extracted;
+    const withListPrice = listPrice
+      ? applyListPrice(withStructured, listPrice)
+      : withStructured;
+    return pageHtml
+      ? applyPreselectedAddon(withListPrice, parseHtml(pageHtml))
+      : withListPrice;
+  });
   const policy = await trackStep("Extract policy", () =>
     extractPolicy(policyText)
   );
@@ -289,7 +344,7 @@ export async function analyzeProduct(
   sendActivity("Matching rules with user profile");
   const rules = await withHeartbeat("Evaluating eligibility rules", () =>
     trackStep("Detect contradictions", () =>
-      detectContradictions(claims, policy)
+      detectContradictions(claims, policy, DEFAULT_RULE_SET, options.profile)
     )
   );
   sendStep(
@@ -305,7 +360,7 @@ export async function analyzeProduct(
     }`
   );
   const explanations = await trackStep("Explain flags", () =>
-    explainFlags(rules.flags)
+    explainFlags(rules.flags, rules.conflicts)
   );
   sendStep("finalize", "📊", "Compiling rejection reasons and recommendations");
   sendActivity("Compiling rejection reasons and recommendations");
@@ -324,24 +379,35 @@ export async function analyzeProduct(
     insight?.message ??
       "Insights limited due to detected policy conflicts."
   );
+  if (fixture) {
+    const mismatch = checkExpectation(fixture, rules);
+    steps.push({
+      name: "Check fixture expectation",
+      status: mismatch ? "failed" : "done",
+      detail: mismatch ?? undefined,
+    });
+  }
   const details = buildProductDetails(
     url,
     mino.productText,
     policyText,
-    rules.flags,
+    rules,
     claims,
     policy,
     {
-      title: mino.productTitle,
-      price: mino.productPrice,
-      description: mino.productDescription,
+      title: structured?.name ?? mino.productTitle,
+      price: structuredPrice(structured) ?? mino.productPrice,
+      description: structured?.description ?? mino.productDescription,
     }
   );
 
   return {
     verdict: rules.verdict,
+    confidence,
+    trust: rules.trust,
     flags: rules.flags,
     explanations,
+    rulesVersion: rules.rulesVersion,
     processingMs: Date.now() - startedAt,
     steps,
     insight,
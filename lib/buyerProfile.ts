@@ -0,0 +1,105 @@
+import type { RuleFlag, RuleSeverity } from "./rules";
+
+// What a buyer, or the team buying on their behalf, requires of a product.
+// Every field is optional; an empty profile leaves the default rules as-is.
+export type BuyerProfile = {
+  minReturnDays?: number;
+  minWarrantyMonths?: number;
+  // ISO country code such as "US" or "IN", or "EU".
+  region?: string;
+  // False rejects open-box, refurbished and used items.
+  openBoxOk?: boolean;
+  // Per-flag severity, for procurement rules stricter or looser than ours.
+  severity?: Partial<Record<RuleFlag, RuleSeverity>>;
+};
+
+// The profile as rules see it, under `profile.*` in the facts.
+export type ProfileFacts = {
+  minReturnDays?: number;
+  minWarrantyMonths?: number;
+  region?: string;
+  currency?: string;
+  openBoxOk?: boolean;
+};
+
+const EURO_REGIONS = [
+  "EU",
+  "AT",
+  "BE",
+  "DE",
+  "ES",
+  "FI",
+  "FR",
+  "GR",
+  "IE",
+  "IT",
+  "LU",
+  "NL",
+  "PT",
+];
+
+const REGION_CURRENCIES: Record<string, string> = {
+  ...Object.fromEntries(EURO_REGIONS.map((region) => [region, "EUR"])),
+  US: "USD",
+  CA: "CAD",
+  AU: "AUD",
+  GB: "GBP",
+  IN: "INR",
+  JP: "JPY",
+  CN: "CNY",
+  CH: "CHF",
+};
+
+const SEVERITIES: RuleSeverity[] = ["risk", "caution", "unclear", "info"];
+
+const readCount = (value: unknown) =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : undefined;
+
+// Profiles arrive in request bodies and query strings, so anything that isn't
+// a usable value is dropped rather than rejected.
+export function parseBuyerProfile(input: unknown): BuyerProfile {
+  if (typeof input === "string") {
+    try {
+      return parseBuyerProfile(JSON.parse(input));
+    } catch {
+      return {};
+    }
+  }
+  if (!input || typeof input !== "object") return {};
+  const raw = input as Record<string, unknown>;
+  const profile: BuyerProfile = {};
+
+  const minReturnDays = readCount(raw.minReturnDays);
+  if (minReturnDays !== undefined) profile.minReturnDays = minReturnDays;
+  const minWarrantyMonths = readCount(raw.minWarrantyMonths);
+  if (minWarrantyMonths !== undefined) {
+    profile.minWarrantyMonths = minWarrantyMonths;
+  }
+  if (typeof raw.region === "string" && raw.region.trim()) {
+    profile.region = raw.region.trim().toUpperCase();
+  }
+  if (typeof raw.openBoxOk === "boolean") profile.openBoxOk = raw.openBoxOk;
+  if (raw.severity && typeof raw.severity === "object") {
+    const severity = Object.entries(raw.severity).filter(([, value]) =>
+      SEVERITIES.includes(value as RuleSeverity)
+    );
+    if (severity.length) {
+      profile.severity = Object.fromEntries(
+        severity
+      ) as BuyerProfile["severity"];
+    }
+  }
+  return profile;
+}
+
+export function buildProfileFacts(profile: BuyerProfile): ProfileFacts {
+  return {
+    minReturnDays: profile.minReturnDays,
+    minWarrantyMonths: profile.minWarrantyMonths,
+    region: profile.region,
+    currency: profile.region ? REGION_CURRENCIES[profile.region] : undefined,
+    openBoxOk: profile.openBoxOk,
+  };
+}
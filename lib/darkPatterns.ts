@@ -0,0 +1,91 @@
+import type { Evidence } from "./extract";
+import { querySelector, querySelectorAll, textContent } from "./html";
+import type { HtmlElement } from "./html";
+
+// Tactics that push a buyer to decide before they've checked the terms.
+export type DarkPatternKind =
+  "scarcity" | "countdown" | "activity" | "preselected_addon";
+
+export type DarkPatterns = Partial<Record<DarkPatternKind, Evidence>>;
+
+// Same window as the claim extractors; every pattern below is anchored on a
+// literal with bounded gaps, so long pages cost one pass per pattern.
+const MAX_TEXT_LENGTH = 200_000;
+
+const PATTERNS: Record<DarkPatternKind, RegExp[]> = {
+  scarcity: [
+    /\bonly\s+\d{1,4}\s+(?:[a-z]+\s+){0,2}?left\b/i,
+    /\b(?:hurry|selling fast|almost gone|few left|low stock|limited stock|limited quantities)\b/i,
+  ],
+  countdown: [
+    /\b(?:ends|expires)\s+in\s*:?\s*(?:\d{1,2}(?::\d{2}){1,2}\b|\d{1,3}\s?(?:h|hrs?|hours?|m|mins?|minutes?|d|days?)\b)/i,
+    /\b(?:deal|offer|sale|price|discount)s?\s+(?:ends|expires)\s+(?:in|at|tonight|today|soon)\b/i,
+    /\b(?:limited[-\s]time (?:offer|deal)|lightning deal|today only|flash sale)\b/i,
+  ],
+  activity: [
+    /\b\d{1,6}\+?\s+(?:people|others|shoppers|customers|users|buyers)\s+(?:are\s+)?(?:viewing|looking at|watching)\b/i,
+    /\b\d{1,6}\+?\s+(?:people|others|shoppers|customers)\s+(?:have\s+)?(?:this\s+)?in\s+(?:their\s+)?(?:carts?|baskets?)\b/i,
+    /\bin\s+\d{1,6}\+?\s+(?:other\s+)?(?:people's\s+)?(?:carts|baskets)\b/i,
+    /\b\d{1,6}\+?\s+(?:sold|bought|purchased)\s+in\s+the\s+(?:last|past)\s+(?:\d{1,3}\s+)?(?:hours?|hrs?|minutes?|mins?)\b/i,
+  ],
+  preselected_addon: [
+    /\b(?:pre[-\s]?selected|pre[-\s]?ticked|pre[-\s]?checked|added (?:to your (?:order|cart) )?(?:by default|automatically))\b/i,
+    /\buncheck (?:the box )?(?:if|to) (?:you )?(?:do not|don't) want\b/i,
+  ],
+};
+
+// What a checked box is adding, when it isn't the product itself.
+const ADDON =
+  /warranty|protection|insurance|care plan|gift wrap|donat|subscri|membership|installation|assembly|newsletter/i;
+
+const MAX_ADDON_LABEL = 160;
+// Looking up a label by id walks the page, so only the first boxes are read.
+const MAX_CHECKBOXES = 50;
+
+export function detectDarkPatterns(input: string): DarkPatterns {
+  const text = input.slice(0, MAX_TEXT_LENGTH);
+  const found: DarkPatterns = {};
+  for (const [kind, patterns] of Object.entries(PATTERNS)) {
+    for (const pattern of patterns) {
+      const match = text.match(pattern);
+      if (!match) continue;
+      const start = match.index ?? 0;
+      found[kind as DarkPatternKind] = {
+        snippet: match[0].replace(/\s+/g, " "),
+        source: "text",
+        start,
+        end: start + match[0].length,
+        pattern: pattern.source,
+      };
+      break;
+    }
+  }
+  return found;
+}
+
+function labelText(root: HtmlElement, input: HtmlElement): string {
+  const id = input.attributes.id;
+  const label =
+    (input.parent?.tag === "label" ? input.parent : null) ??
+    (id ? querySelector(root, `label[for="${id}"]`) : null) ??
+    input.parent;
+  return label ? textContent(label).replace(/\s+/g, " ").trim() : "";
+}
+
+// Pre-ticked boxes only show in the markup: page text has the label but not
+// the box's state.
+export function findPreselectedAddon(root: HtmlElement): Evidence | undefined {
+  const inputs = querySelectorAll(root, 'input[type="checkbox"][checked]');
+  for (const input of inputs.slice(0, MAX_CHECKBOXES)) {
+    const label = labelText(root, input).slice(0, MAX_ADDON_LABEL);
+    if (!ADDON.test(label)) continue;
+    return {
+      snippet: label,
+      source: "html",
+      start: input.start,
+      end: input.end,
+      pattern: "checked add-on checkbox",
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,131 @@
+export type DurationUnit = "day" | "week" | "month" | "year";
+
+export type Duration = {
+  value: number;
+  unit: DurationUnit;
+};
+
+const ONES: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  single: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = {
+  twenty: 20,
+  thirty: 30,
+  forty: 40,
+  fifty: 50,
+  sixty: 60,
+  seventy: 70,
+  eighty: 80,
+  ninety: 90,
+};
+
+const UNITS: Array<[string, DurationUnit]> = [
+  ["months", "month"],
+  ["month", "month"],
+  ["mos", "month"],
+  ["mo", "month"],
+  ["years", "year"],
+  ["year", "year"],
+  ["yrs", "year"],
+  ["yr", "year"],
+  ["weeks", "week"],
+  ["week", "week"],
+  ["wks", "week"],
+  ["wk", "week"],
+  ["days", "day"],
+  ["day", "day"],
+  ["d", "day"],
+];
+
+const DAYS_PER_UNIT: Record<DurationUnit, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const byLength = (a: string, b: string) => b.length - a.length;
+
+const DIGIT_WORDS = Object.keys(ONES).filter(
+  (word) => ONES[word] < 10 && word.length > 2 && word !== "single"
+);
+
+const ONES_PATTERN = Object.keys(ONES).sort(byLength).join("|");
+const NUMBER_PATTERN = [
+  "\\d{1,3}",
+  `(?:${Object.keys(TENS).join("|")})(?:[\\s-](?:${DIGIT_WORDS.join("|")}))?`,
+  ONES_PATTERN,
+].join("|");
+const UNIT_PATTERN = UNITS.map(([token]) => token).join("|");
+
+// Matches "30 days", "thirty days", "twenty-four months", "one-year",
+// "2-yr", "24 mo.", "45 business days" and "a week". Named groups keep
+// callers independent of how many capture groups their own pattern adds.
+export const DURATION_PATTERN = `\\b(?<amount>${NUMBER_PATTERN})[\\s-]{0,2}(?:(?:business|working|calendar)[\\s-])?(?<unit>${UNIT_PATTERN})\\b`;
+
+export function durationRegex(template: string, flags = "i"): RegExp {
+  return new RegExp(template.replace("{duration}", DURATION_PATTERN), flags);
+}
+
+export function parseNumberWord(text: string): number | undefined {
+  const value = text.trim().toLowerCase();
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value in ONES) return ONES[value];
+  const [tens, ones] = value.split(/[\s-]/);
+  if (!(tens in TENS)) return undefined;
+  if (!ones) return TENS[tens];
+  return DIGIT_WORDS.includes(ones) ? TENS[tens] + ONES[ones] : undefined;
+}
+
+export function parseDuration(
+  amountText: string,
+  unitText: string
+): Duration | undefined {
+  const value = parseNumberWord(amountText);
+  const unit = UNITS.find(
+    ([token]) => token === unitText.trim().toLowerCase()
+  )?.[1];
+  if (value === undefined || !unit) return undefined;
+  return { value, unit };
+}
+
+export function durationFromMatch(
+  match: RegExpMatchArray
+): Duration | undefined {
+  const amount = match.groups?.amount;
+  const unit = match.groups?.unit;
+  if (!amount || !unit) return undefined;
+  return parseDuration(amount, unit);
+}
+
+export function toDays(duration: Duration): number {
+  return duration.value * DAYS_PER_UNIT[duration.unit];
+}
+
+export function toMonths(duration: Duration): number {
+  if (duration.unit === "month") return duration.value;
+  if (duration.unit === "year") return duration.value * 12;
+  return Math.round((toDays(duration) / DAYS_PER_UNIT.month) * 10) / 10;
+}
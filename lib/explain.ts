@@ -1,21 +1,124 @@
-import type { RuleFlag } from "./rules";
+import type { RuleConflict, RuleFlag, WarrantyMismatch } from "./rules";
 
 const EXPLANATIONS: Record<RuleFlag, string> = {
   returns_conflict:
     "Return terms on the product page conflict with the returns policy.",
   warranty_conflict:
     "Warranty claims on the product page conflict with the warranty policy.",
+  warranty_scope_conflict:
+    "Warranty claims on the product page overstate what the warranty covers.",
   stock_conflict:
     "Stock claims on the product page conflict with availability warnings.",
   price_conflict:
     "Price guarantees on the product page conflict with pricing policies.",
-  unclear:
-    "Unclear: not enough explicit text to verify claims against policies.",
+  returns_conditional:
+    "Return terms on the product page omit exceptions found in the returns policy.",
+  warranty_conditional:
+    "Warranty claims on the product page omit conditions in the warranty policy.",
+  return_shipping_conflict:
+    "Free returns on the product page conflict with return shipping charges in the policy.",
+  shipping_conflict:
+    "Free shipping on the product page only applies above a minimum order value.",
+  refund_method_conflict:
+    "Refund promises on the product page conflict with store-credit or exchange-only refunds in the policy.",
+  refund_timeline_conflict:
+    "Refund timing on the product page conflicts with the policy's processing time.",
+  restocking_fee:
+    "The returns policy charges a restocking fee not mentioned on the product page.",
+  extra_fees:
+    "The policy adds cash-on-delivery, convenience or handling fees.",
+  returns_unverified:
+    "Return terms on the product page are not backed by any returns policy text.",
+  warranty_unverified:
+    "Warranty claims on the product page are not backed by any warranty policy text.",
+  stock_unverified:
+    "Stock claims on the product page are not backed by any availability policy.",
+  price_unverified:
+    "Price claims on the product page are not backed by any pricing policy.",
+  no_signal:
+    "Unclear: neither the product page nor the policies say anything about returns, warranty, stock or price.",
+  returns_below_requirement:
+    "The return window is shorter than the buyer profile requires.",
+  warranty_below_requirement:
+    "The warranty is shorter than the buyer profile requires.",
+  condition_not_accepted:
+    "The item is open-box, refurbished or used, which the buyer profile does not accept.",
+  region_mismatch:
+    "The price is in a different currency than the buyer profile's region.",
+  discount_mismatch:
+    "The stated discount does not match the list and sale prices on the page.",
+  discount_impossible:
+    "The discount or list price on the product page cannot be real.",
+  discount_unreferenced:
+    "The product page claims a discount without a list price to compare against.",
+  false_scarcity:
+    "The product page pressures you with low-stock messages.",
+  countdown_pressure:
+    "The product page uses a countdown or deadline to rush the purchase.",
+  activity_pressure:
+    "The product page cites how many other shoppers are viewing or buying it.",
+  preselected_addon:
+    "An add-on such as a protection plan is selected by default.",
   invalid_url: "URL is missing or invalid.",
-  analysis_failed: "Analysis failed. Try again or use a test URL in dev.",
-  dev_only: "Development mode only supports the test URLs.",
+  analysis_failed:
+    "Analysis failed. Try again, or in development use the URL of a fixture in fixtures/pages.",
 };
 
-export function explainFlags(flags: RuleFlag[]): string[] {
-  return flags.map((flag) => EXPLANATIONS[flag]);
+const PROVIDER_LABELS: Record<
+  NonNullable<WarrantyMismatch["policyProvider"]>,
+  string
+> = {
+  manufacturer: "manufacturer",
+  seller: "seller",
+  third_party: "third-party",
+};
+
+function formatMonths(months: number): string {
+  if (months >= 12 && months % 12 === 0) {
+    const years = months / 12;
+    return `${years} year${years === 1 ? "" : "s"}`;
+  }
+  if (months < 1) return `${Math.round(months * 30)} days`;
+  return `${months} month${months === 1 ? "" : "s"}`;
+}
+
+function describeWarranty(mismatch: WarrantyMismatch): string {
+  const provider = mismatch.policyProvider
+    ? `${PROVIDER_LABELS[mismatch.policyProvider]} `
+    : "";
+  const level = mismatch.policyLevel ? `${mismatch.policyLevel} ` : "";
+  return `${level}${provider}warranty`;
+}
+
+function explainMismatch(mismatch: WarrantyMismatch): string {
+  switch (mismatch.kind) {
+    case "labour":
+      return `The page claims ${formatMonths(
+        mismatch.claimedMonths ?? 0
+      )}, but the policy's ${describeWarranty(
+        mismatch
+      )} covers labour for only ${formatMonths(mismatch.coveredMonths ?? 0)}.`;
+    case "parts_only":
+      return `The policy's ${describeWarranty(
+        mismatch
+      )} covers parts only, not labour.`;
+    case "provider":
+      return `The page names a ${
+        PROVIDER_LABELS[mismatch.claimedProvider ?? "seller"]
+      } warranty, but the policy provides a ${describeWarranty(mismatch)}.`;
+  }
+}
+
+export function explainFlags(
+  flags: RuleFlag[],
+  conflicts: RuleConflict[] = []
+): string[] {
+  return flags.map((flag) => {
+    const mismatch = conflicts.find(
+      (conflict) => conflict.flag === flag && conflict.mismatch
+    )?.mismatch;
+    return mismatch
+      ? `${EXPLANATIONS[flag]} ${explainMismatch(mismatch)}`
+      : EXPLANATIONS[flag];
+  });
 }
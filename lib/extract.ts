@@ -1,130 +1,1190 @@
-type ExtractedBase = {
+import { detectDarkPatterns, findPreselectedAddon } from "./darkPatterns";
+import type { DarkPatterns } from "./darkPatterns";
+import { durationFromMatch, durationRegex, toDays, toMonths } from "./duration";
+import type { HtmlElement } from "./html";
+import { hasAmbiguousCurrency, parseMoney } from "./money";
+import type { Money } from "./money";
+import { primaryOffer } from "./structuredData";
+import type { StructuredProduct } from "./structuredData";
+
+export type PolicyTerms = "allowed" | "conditional" | "not_allowed";
+
+export type ReturnScope = {
+  category?: string;
+  condition?: "opened" | "used" | "refurbished" | "damaged";
+  sale?: "clearance" | "sale";
+};
+
+export type Fee = {
+  percent?: number;
+  amount?: number;
+  currency?: string;
+};
+
+export type ExtraFee = "cod" | "convenience" | "handling";
+
+export type RefundMethod =
+  "original_payment" | "store_credit" | "exchange_only";
+
+export type WarrantyDetails = {
+  provider?: "manufacturer" | "seller" | "third_party";
+  level?: "limited" | "full";
+  coverage?: "parts" | "labour" | "parts_and_labour";
+  partsMonths?: number;
+  labourMonths?: number;
+  extendedOffer?: boolean;
+};
+
+export type ReturnRule = {
+  scope: ReturnScope;
+  allowed: boolean;
+  days?: number;
+  evidence: Evidence;
+};
+
+type ExtractedFields = {
   returnsDays?: number;
   returnsAllowed?: boolean;
+  returnsTerms?: PolicyTerms;
   warrantyMonths?: number;
   warrantyProvided?: boolean;
+  warrantyTerms?: PolicyTerms;
+  warranty?: WarrantyDetails;
+  returnRules?: ReturnRule[];
+  productScope?: ReturnScope;
   stockStatus?: "in_stock" | "out_of_stock" | "preorder" | "backorder";
   priceValue?: number;
+  priceCurrency?: string;
+  // The currency was read from "$" or "¥" rather than a code or store data.
+  priceCurrencyAmbiguous?: boolean;
+  listPrice?: number;
+  salePrice?: number;
+  discountPercent?: number;
   priceGuarantee?: boolean;
   pricePolicy?: "price_change" | "price_guarantee" | "price_match";
   stockWarning?: boolean;
+  restockingFee?: Fee;
+  returnShippingPaidBy?: "buyer" | "seller";
+  extraFees?: ExtraFee[];
+  freeShipping?: boolean;
+  freeShippingThreshold?: Money;
+  refundMethod?: RefundMethod;
+  refundDays?: number;
+  refundPromise?: "full_refund" | "money_back";
+  darkPatterns?: DarkPatterns;
+};
+
+export type ExtractedField = keyof ExtractedFields;
+
+// Where a piece of evidence was read. "text" offsets index the text passed to
+// extractClaims or extractPolicy and "html" offsets the product page's HTML.
+// Platform APIs and site adapters leave nothing to point at, so their
+// evidence has no offsets.
+export type EvidenceSource = "text" | "html" | "platform" | "adapter";
+
+export type Evidence = {
+  snippet: string;
+  source: EvidenceSource;
+  start?: number;
+  end?: number;
+  pattern: string;
+};
+
+export type EvidenceMap = Partial<Record<ExtractedField, Evidence>>;
+
+type ExtractedBase = ExtractedFields & {
+  evidence: EvidenceMap;
 };
 
 export type ExtractedClaims = ExtractedBase;
 export type ExtractedPolicy = ExtractedBase;
 
-function normalize(text: string): string {
-  return text.replace(/\s+/g, " ").trim();
+// Product and policy text is matched in one window. Every pattern below is
+// either anchored on a literal or has bounded gaps ({0,60}, not .*), so the
+// cost of a match grows with the window, never with its square.
+const MAX_TEXT_LENGTH = 200_000;
+
+type SourceText = {
+  text: string;
+  offsets: number[];
+};
+
+type Found<T> = {
+  value: T;
+  evidence: Evidence;
+};
+
+function normalize(input: string): SourceText {
+  let text = "";
+  const offsets: number[] = [];
+  let pendingSpace = -1;
+  const length = Math.min(input.length, MAX_TEXT_LENGTH);
+  for (let index = 0; index < length; index += 1) {
+    const char = input[index];
+    if (/\s/.test(char)) {
+      if (text) pendingSpace = index;
+      continue;
+    }
+    if (pendingSpace !== -1) {
+      text += " ";
+      offsets.push(pendingSpace);
+      pendingSpace = -1;
+    }
+    text += char;
+    offsets.push(index);
+  }
+  return { text, offsets };
 }
 
-function findReturnDays(text: string): number | undefined {
-  const patterns = [
-    /return[s]?\s+within\s+(\d{1,3})\s+day/i,
-    /(\d{1,3})\s+day[s]?\s+return/i,
-    /return[s]?\s+policy\s+.*?(\d{1,3})\s+day/i,
-  ];
+function toEvidence(
+  source: SourceText,
+  index: number,
+  length: number,
+  pattern: string
+): Evidence {
+  const last = Math.max(index, index + length - 1);
+  return {
+    snippet: source.text.slice(index, index + length),
+    source: "text",
+    start: source.offsets[index] ?? 0,
+    end: (source.offsets[last] ?? 0) + 1,
+    pattern,
+  };
+}
+
+function matchFirst(
+  source: SourceText,
+  patterns: RegExp[]
+): { match: RegExpMatchArray; evidence: Evidence } | undefined {
   for (const pattern of patterns) {
-    const match = text.match(pattern);
+    const match = source.text.match(pattern);
     if (match) {
-      return Number(match[1]);
+      return {
+        match,
+        evidence: toEvidence(
+          source,
+          match.index ?? 0,
+          match[0].length,
+          pattern.source
+        ),
+      };
     }
   }
   return undefined;
 }
 
-function findWarrantyMonths(text: string): number | undefined {
-  const match = text.match(
-    /warranty[^.\n]{0,120}?(\d{1,2})\s*(year|years|month|months)/i
-  );
-  if (!match) return undefined;
-  const value = Number(match[1]);
-  const unit = match[2].toLowerCase();
-  return unit.startsWith("year") ? value * 12 : value;
+function matchMapped<T>(
+  source: SourceText,
+  table: Array<[RegExp, T]>
+): Found<T> | undefined {
+  for (const [pattern, value] of table) {
+    const found = matchFirst(source, [pattern]);
+    if (found) return { value, evidence: found.evidence };
+  }
+  return undefined;
 }
 
-function findStockStatus(text: string): ExtractedClaims["stockStatus"] {
-  if (/out of stock|sold out|unavailable/i.test(text)) return "out_of_stock";
-  if (/pre[-\s]?order/i.test(text)) return "preorder";
-  if (/back\s?order/i.test(text)) return "backorder";
-  if (/in stock|available now|available/i.test(text)) return "in_stock";
-  return undefined;
+function findReturnDays(source: SourceText): Found<number> | undefined {
+  const found = matchFirst(source, [
+    durationRegex("return[s]?(?:\\s+accepted)?\\s+(?:with)?in\\s+{duration}"),
+    durationRegex("{duration}[\\s-]+(?:free\\s+|easy\\s+)?return"),
+    durationRegex("return[s]?\\s+policy\\b[^.]{0,80}?{duration}"),
+    durationRegex("return[^.]{0,60}?within\\s+{duration}"),
+  ]);
+  const duration = found && durationFromMatch(found.match);
+  if (!found || !duration) return undefined;
+  return { value: toDays(duration), evidence: found.evidence };
 }
 
-function findPriceValue(text: string): number | undefined {
-  const match = text.match(
-    /(USD|INR|EUR|GBP|CAD|AUD|[$€£₹])\s*([0-9]+(?:\.[0-9]{2})?)/i
+function findWarrantyMonths(source: SourceText): Found<number> | undefined {
+  const found = matchFirst(source, [
+    durationRegex("{duration}[\\s-]+(?:[a-z]+[\\s-]+){0,3}?warrant"),
+    durationRegex("warranty[^.\\n]{0,120}?{duration}"),
+  ]);
+  const duration = found && durationFromMatch(found.match);
+  if (!found || !duration) return undefined;
+  return { value: toMonths(duration), evidence: found.evidence };
+}
+
+function findCoverageMonths(
+  source: SourceText,
+  part: string
+): number | undefined {
+  const found = matchFirst(source, [
+    durationRegex(`{duration}\\s+(?:of\\s+)?(?:${part})`),
+    durationRegex(`(?:${part})[^.]{0,30}?{duration}`),
+  ]);
+  const duration = found && durationFromMatch(found.match);
+  return duration ? toMonths(duration) : undefined;
+}
+
+function findWarrantyDetails(
+  source: SourceText
+): Found<WarrantyDetails> | undefined {
+  const provider = matchMapped(source, [
+    [
+      /(?:manufacturer|brand)(?:'s)? warranty|warranty (?:is )?(?:provided|offered|serviced|covered) by (?:the )?(?:manufacturer|brand)/i,
+      "manufacturer" as const,
+    ],
+    [
+      /(?:seller|store|retailer)(?:'s)? warranty|warranty (?:is )?(?:provided|offered) by (?:the )?(?:seller|store|retailer|us)/i,
+      "seller" as const,
+    ],
+    [/third[-\s]party warranty/i, "third_party" as const],
+  ]);
+  const level = matchMapped(source, [
+    [/limited (?:\w+[\s-]){0,3}?warranty/i, "limited" as const],
+    [/(?:full|comprehensive) (?:\w+[\s-]){0,3}?warranty/i, "full" as const],
+  ]);
+  const coverage = matchMapped(source, [
+    [/parts (?:and|&) labou?r/i, "parts_and_labour" as const],
+    [
+      /parts[-\s]only|only (?:covers )?parts|labou?r (?:is )?not covered/i,
+      "parts" as const,
+    ],
+    [/labou?r[-\s]only/i, "labour" as const],
+  ]);
+  const extendedOffer = matchMapped(source, [
+    [
+      /extended warranty|protection plan|add (?:an? )?(?:\d+[-\s]year )?(?:protection|warranty)|buy (?:additional|extra) warranty/i,
+      true,
+    ],
+  ]);
+  const partsMonths = findCoverageMonths(source, "parts");
+  const labourMonths = findCoverageMonths(source, "labou?r");
+
+  const details: WarrantyDetails = {
+    provider: provider?.value,
+    level: level?.value,
+    coverage: coverage?.value,
+    partsMonths,
+    labourMonths,
+    extendedOffer: extendedOffer?.value,
+  };
+  const evidence =
+    [provider, level, coverage, extendedOffer].find(Boolean)?.evidence ??
+    matchFirst(source, [/\b(?:labou?r|parts)\b/i])?.evidence;
+  const hasDetails = Object.values(details).some(
+    (value) => value !== undefined
   );
-  if (!match) return undefined;
-  return Number(match[2]);
+  if (!evidence || !hasDetails) return undefined;
+  return { value: details, evidence };
+}
+
+function findStockStatus(
+  source: SourceText
+): Found<NonNullable<ExtractedFields["stockStatus"]>> | undefined {
+  return matchMapped(source, [
+    [/out of stock|sold out|unavailable/i, "out_of_stock" as const],
+    [/pre[-\s]?order/i, "preorder" as const],
+    [/back\s?order/i, "backorder" as const],
+    [/in stock|available now|available/i, "in_stock" as const],
+  ]);
+}
+
+function findPrice(source: SourceText): Found<Money> | undefined {
+  const money = parseMoney(source.text);
+  if (!money) return undefined;
+  const index = source.text.indexOf(money.raw);
+  return {
+    value: money,
+    evidence: toEvidence(
+      source,
+      Math.max(index, 0),
+      money.raw.length,
+      "money"
+    ),
+  };
 }
 
-function findReturnsAllowed(text: string): boolean | undefined {
-  if (/no returns|final sale|non[-\s]?returnable/i.test(text)) return false;
-  if (/returns accepted|free returns|return policy/i.test(text)) return true;
+// Labels are matched first and the amount is read from a short window after
+// them, so a label far from any price never pairs with an unrelated amount.
+const LIST_PRICE_LABELS =
+  /\bm\.?r\.?p\b\.?|\blist price\b|\brrp\b|\bregular price\b|\boriginal price\b|\bcompare at\b|\bwas\b/gi;
+const SALE_PRICE_LABELS =
+  /\b(?:sale|deal|offer|special|selling|our) price\b|\bnow(?: only)?\b|(?<!(?:list|regular|original) )\bprice\b/gi;
+const LABEL_WINDOW = 40;
+const LABEL_GAP = 16;
+const MAX_LABELS = 50;
+
+function findLabelledPrice(
+  source: SourceText,
+  labels: RegExp,
+  // A label that, between this label and the amount, claims it instead.
+  yieldTo?: RegExp
+): Found<Money> | undefined {
+  const yieldPattern = yieldTo && new RegExp(yieldTo.source, "i");
+  let seen = 0;
+  for (const label of source.text.matchAll(labels)) {
+    if ((seen += 1) > MAX_LABELS) break;
+    const start = (label.index ?? 0) + label[0].length;
+    const window = source.text.slice(start, start + LABEL_WINDOW);
+    const money = parseMoney(window);
+    const offset = money ? window.indexOf(money.raw) : -1;
+    if (!money || offset === -1 || offset > LABEL_GAP) continue;
+    if (yieldPattern?.test(window.slice(0, offset))) continue;
+    const index = label.index ?? 0;
+    return {
+      value: money,
+      evidence: toEvidence(
+        source,
+        index,
+        start + offset + money.raw.length - index,
+        labels.source
+      ),
+    };
+  }
   return undefined;
 }
 
-function findWarrantyProvided(text: string): boolean | undefined {
-  if (/no warranty|as[-\s]?is|without warranty/i.test(text)) return false;
-  if (/warranty/i.test(text)) return true;
+function findListPrice(source: SourceText): Found<Money> | undefined {
+  return findLabelledPrice(source, LIST_PRICE_LABELS);
+}
+
+// Without a label, the selling price is the first amount that isn't the list
+// price: before it on most storefronts ("₹999 M.R.P. ₹1,999"), otherwise
+// after it ("Was $80, now $60").
+function findSalePrice(
+  source: SourceText,
+  list: Found<Money> | undefined
+): Found<Money> | undefined {
+  const labelled = findLabelledPrice(
+    source,
+    SALE_PRICE_LABELS,
+    LIST_PRICE_LABELS
+  );
+  if (labelled || !list) return labelled;
+
+  const listStart = source.text.indexOf(list.evidence.snippet);
+  const listEnd = listStart + list.evidence.snippet.length;
+  for (const [from, to] of [
+    [0, listStart],
+    [listEnd, source.text.length],
+  ]) {
+    const money = parseMoney(source.text.slice(from, to));
+    if (!money) continue;
+    const index = source.text.indexOf(money.raw, from);
+    return {
+      value: money,
+      evidence: toEvidence(source, index, money.raw.length, "money"),
+    };
+  }
   return undefined;
 }
 
-function findPriceGuarantee(text: string): boolean | undefined {
-  if (/price match|price guarantee|price guaranteed/i.test(text)) return true;
-  if (/prices subject to change|reserve the right to change prices/i.test(text))
-    return false;
+const DISCOUNT_PATTERNS = [
+  /(\d{1,3}(?:\.\d{1,2})?)\s?%\s?(?:off\b|discount\b|savings?\b)/i,
+  /\b(?:save|discount(?: of)?|flat)\s(\d{1,3}(?:\.\d{1,2})?)\s?%/i,
+  /(?:^|\s)[-−]\s?(\d{1,3}(?:\.\d{1,2})?)\s?%/,
+];
+
+function findDiscountPercent(source: SourceText): Found<number> | undefined {
+  const found = matchFirst(source, DISCOUNT_PATTERNS);
+  if (!found) return undefined;
+  // "Up to 70% off" is a range across a catalogue, not this item's discount.
+  const start = found.match.index ?? 0;
+  if (/\bup ?to\s?$/i.test(source.text.slice(Math.max(0, start - 7), start))) {
+    return undefined;
+  }
+  return { value: Number(found.match[1]), evidence: found.evidence };
+}
+
+function findPricing(
+  source: SourceText,
+  evidence: EvidenceMap,
+  list: Found<Money> | undefined,
+  sale: Found<Money> | undefined
+) {
+  return {
+    listPrice: collect(
+      evidence,
+      "listPrice",
+      list && { value: list.value.amount, evidence: list.evidence }
+    ),
+    salePrice: collect(
+      evidence,
+      "salePrice",
+      sale && { value: sale.value.amount, evidence: sale.evidence }
+    ),
+    discountPercent: collect(
+      evidence,
+      "discountPercent",
+      findDiscountPercent(source)
+    ),
+  };
+}
+
+type Clause = {
+  start: number;
+  end: number;
+  text: string;
+};
+
+type TermsMarkers = {
+  topic: RegExp;
+  positive: RegExp;
+};
+
+const CLAUSE_BREAK = /[.;!?](?:\s+|$)|,?\s+(?:but|however|although)\b,?\s*/gi;
+
+const SEGMENT_BREAK = /,\s*|:\s*|\s+and\s+/gi;
+
+// Phrases that contain a negation word but read as a promise to the buyer.
+const NEUTRAL_NEGATIONS =
+  /\bno[-\s](?:questions?[-\s]asked|hassle|restocking fees?|receipts?(?: needed| required)?|extra (?:cost|charge)|additional (?:cost|charge))|\b(?:do|does|will) not charge\b|\bif not (?:satisfied|happy|completely satisfied)\b/gi;
+
+// Negation words only count when they apply to the topic or its verb ("no
+// returns", "not accepted", "refunds will not"), so "no receipt needed" in a
+// returns clause does not make it a refusal.
+const NEGATION =
+  /\b(?:no|not|never|cannot|can't|won't|don't|doesn't|isn't|aren't|without)\b/gi;
+
+// Negations that refuse on their own, wherever they sit in the clause.
+const STANDALONE_NEGATION =
+  /\bnon[-\s]?\w+|\b(?:ineligible|void(?:s|ed)?)\b|final sale|as[-\s]is/i;
+
+const NEGATION_WINDOW = 40;
+const NEGATION_AUXILIARY =
+  "(?:(?:are|is|will|would|can|may|do|does|be|have been)\\s+)?";
+
+const CONDITION =
+  /\b(?:except|unless|exclud\w*|other than|only (?:if|when|for)|provided (?:that )?|as long as|conditions? apply|restrictions apply|subject to|must be|after (?:opening|use|installation)|once (?:opened|used|installed)|if (?:opened|used|damaged|installed))\b/i;
+
+const RETURNS_MARKERS: TermsMarkers = {
+  topic: /\breturn(?:s|ed|able)?\b|\brefund|final sale/i,
+  positive:
+    /accept|free|easy|within|eligible|returnable|\bcan\b|\bmay\b|allow|\d+[\s-]*day/i,
+};
+
+const WARRANTY_MARKERS: TermsMarkers = {
+  topic: /\bwarrant(?:y|ies|ied)\b|as[-\s]is/i,
+  positive:
+    /includ|cover|comes with|provid|offer|lasts|valid|limited|manufacturer|\d+[\s-]*(?:year|month|yr|mo)/i,
+};
+
+function splitSpans(
+  source: SourceText,
+  span: Clause,
+  pattern: RegExp
+): Clause[] {
+  const spans: Clause[] = [];
+  let start = span.start;
+  for (const match of span.text.matchAll(pattern)) {
+    const end = span.start + (match.index ?? 0);
+    if (end > start) {
+      spans.push({ start, end, text: source.text.slice(start, end) });
+    }
+    start = end + match[0].length;
+  }
+  if (start < span.end) {
+    spans.push({
+      start,
+      end: span.end,
+      text: source.text.slice(start, span.end),
+    });
+  }
+  return spans;
+}
+
+function splitClauses(source: SourceText): Clause[] {
+  return splitSpans(
+    source,
+    { start: 0, end: source.text.length, text: source.text },
+    CLAUSE_BREAK
+  );
+}
+
+function isNegated(text: string, markers: TermsMarkers): boolean {
+  if (STANDALONE_NEGATION.test(text)) return true;
+  const before = new RegExp(
+    `(?:${markers.topic.source})\\w*\\s+${NEGATION_AUXILIARY}$`,
+    "i"
+  );
+  for (const match of text.matchAll(NEGATION)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    // The next two words carry the verb or topic being refused.
+    const after = text
+      .slice(end, end + NEGATION_WINDOW)
+      .match(/^\s+\S+(?:\s+\S+)?/);
+    if (
+      after &&
+      (markers.topic.test(after[0]) || markers.positive.test(after[0]))
+    ) {
+      return true;
+    }
+    if (before.test(text.slice(Math.max(0, start - NEGATION_WINDOW), start))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function classifyClause(
+  text: string,
+  markers: TermsMarkers
+): PolicyTerms | undefined {
+  if (!markers.topic.test(text)) return undefined;
+  const cleaned = text.replace(NEUTRAL_NEGATIONS, "");
+  const negated = isNegated(cleaned, markers);
+  const conditional = CONDITION.test(cleaned);
+  if (conditional) return "conditional";
+  if (negated) return "not_allowed";
+  if (markers.positive.test(cleaned)) return "allowed";
   return undefined;
 }
 
-function findPricePolicy(text: string): ExtractedPolicy["pricePolicy"] {
-  if (/price match/i.test(text)) return "price_match";
-  if (/price guarantee|price guaranteed/i.test(text)) return "price_guarantee";
-  if (/prices subject to change|reserve the right to change prices/i.test(text))
-    return "price_change";
+function findTerms(
+  source: SourceText,
+  markers: TermsMarkers
+): Found<PolicyTerms> | undefined {
+  const classified = splitClauses(source)
+    .map((clause) => ({ clause, terms: classifyClause(clause.text, markers) }))
+    .filter(
+      (entry): entry is { clause: Clause; terms: PolicyTerms } =>
+        entry.terms !== undefined
+    );
+  if (!classified.length) return undefined;
+
+  const pick = (terms: PolicyTerms) =>
+    classified.find((entry) => entry.terms === terms);
+  const conditional = pick("conditional");
+  const notAllowed = pick("not_allowed");
+  const allowed = pick("allowed");
+
+  // A general promise followed by a carve-out ("returns accepted... opened
+  // items are non-returnable") is conditional, not a flat yes or no.
+  const decided = conditional
+    ? { terms: "conditional" as const, clause: conditional.clause }
+    : notAllowed && allowed
+      ? { terms: "conditional" as const, clause: notAllowed.clause }
+      : (notAllowed ?? allowed);
+  if (!decided) return undefined;
+
+  return {
+    value: decided.terms,
+    evidence: toEvidence(
+      source,
+      decided.clause.start,
+      decided.clause.end - decided.clause.start,
+      "clause"
+    ),
+  };
+}
+
+const CATEGORY_PATTERNS: Array<[RegExp, string]> = [
+  [/\binnerwear\b|\blingerie\b|\bunderwear\b|\bswimwear\b/i, "innerwear"],
+  [/\bsoftware\b|\bvideo ?games?\b|\bdigital downloads?\b/i, "software"],
+  [
+    /\belectronics?\b|\bmobiles?\b|\b(?:smart)?phones?\b|\blaptops?\b|\btablets?\b|\bcameras?\b/i,
+    "electronics",
+  ],
+  [/\bappliances?\b/i, "appliances"],
+  [
+    /\bapparel\b|\bclothing\b|\bclothes\b|\bgarments?\b|\bfashion\b/i,
+    "apparel",
+  ],
+  [/\bfootwear\b|\bshoes\b|\bsneakers\b/i, "footwear"],
+  [/\bbooks?\b/i, "books"],
+  [/\bbeauty\b|\bcosmetics?\b|\bmakeup\b|\bpersonal care\b/i, "beauty"],
+  [/\bjewell?ery\b|\bwatch(?:es)?\b/i, "jewelry"],
+  [/\bfurniture\b|\bmattress(?:es)?\b/i, "furniture"],
+  [/\btoys?\b/i, "toys"],
+  [/\bgrocery\b|\bfood\b|\bperishables?\b/i, "grocery"],
+];
+
+const CONDITION_PATTERNS: Array<
+  [RegExp, NonNullable<ReturnScope["condition"]>]
+> = [
+  [
+    /\bopened\b|\bopen[\s-]box\b|\bunsealed\b|\bseal(?:s)? (?:is |are )?broken\b/i,
+    "opened",
+  ],
+  [/\brefurbished\b|\brenewed\b/i, "refurbished"],
+  [/\bused\b|\binstalled\b|\bworn\b/i, "used"],
+  [/\bdamaged\b|\bdefective\b/i, "damaged"],
+];
+
+const POLICY_SALE_PATTERNS: Array<[RegExp, NonNullable<ReturnScope["sale"]>]> =
+  [
+    [/\bclearance\b/i, "clearance"],
+    [
+      /\bsale items?\b|\bdiscounted\b|\bitems? on sale\b|\bpromotional\b/i,
+      "sale",
+    ],
+  ];
+
+const PRODUCT_SALE_PATTERNS: Array<[RegExp, NonNullable<ReturnScope["sale"]>]> =
+  [
+    [/\bclearance\b/i, "clearance"],
+    [/\bon sale\b|\bsale price\b|\b\d{1,2}\s?% off\b/i, "sale"],
+  ];
+
+const RETURN_NEGATION =
+  /non[-\s]?returnable|not (?:be )?(?:eligible for )?return|cannot be returned|can't be returned|no returns|final sale|not accepted/i;
+
+const OTHER_POLICY_TOPIC =
+  /\bwarrant|\bship|\bdeliver|\bdispatch|\bexchange|\bcancel|\bprivacy/i;
+
+function findScope(
+  text: string,
+  salePatterns: Array<[RegExp, NonNullable<ReturnScope["sale"]>]>
+): ReturnScope {
+  const scope: ReturnScope = {};
+  const category = CATEGORY_PATTERNS.find(([pattern]) => pattern.test(text));
+  const condition = CONDITION_PATTERNS.find(([pattern]) => pattern.test(text));
+  const sale = salePatterns.find(([pattern]) => pattern.test(text));
+  if (category) scope.category = category[1];
+  if (condition) scope.condition = condition[1];
+  if (sale) scope.sale = sale[1];
+  return scope;
+}
+
+function findReturnRules(source: SourceText): Found<ReturnRule[]> | undefined {
+  const rules: ReturnRule[] = [];
+  const duration = durationRegex("{duration}");
+
+  // A returns section lists its windows without repeating the word
+  // ("Returns. Electronics 7 days, apparel 30 days."), so clauses after a
+  // returns clause count until another topic starts, as long as each segment
+  // names a category and a window.
+  let inSection = false;
+  for (const clause of splitClauses(source)) {
+    const topical = RETURNS_MARKERS.topic.test(clause.text);
+    if (topical) inSection = true;
+    else if (OTHER_POLICY_TOPIC.test(clause.text)) inSection = false;
+    if (!inSection) continue;
+    for (const segment of splitSpans(source, clause, SEGMENT_BREAK)) {
+      const scope = findScope(segment.text, POLICY_SALE_PATTERNS);
+      const match = segment.text.match(duration);
+      const window = match ? durationFromMatch(match) : undefined;
+      const negated = topical && RETURN_NEGATION.test(segment.text);
+      if (!window && !negated) continue;
+      if (!window && !Object.keys(scope).length) continue;
+      if (!topical && !scope.category) continue;
+      rules.push({
+        scope,
+        allowed: !negated,
+        days: window && !negated ? toDays(window) : undefined,
+        evidence: toEvidence(
+          source,
+          segment.start,
+          segment.end - segment.start,
+          "return_rule"
+        ),
+      });
+    }
+  }
+
+  if (!rules.length) return undefined;
+  return { value: rules, evidence: rules[0].evidence };
+}
+
+// Category and condition words turn up all over a product page ("can be used
+// with any carrier", "fits laptops up to 15 inches"), so they are only read
+// where the store names the item itself: its title, the breadcrumb trail and
+// a condition label.
+const TITLE_LENGTH = 120;
+const BREADCRUMB = /[^>›».]{1,40}(?:[>›»][^>›».]{1,40}){2,}/;
+const CONDITION_LABEL = /\bcondition ?: ?[a-z-]+(?: [a-z-]+){0,2}/i;
+// "Laptop sleeve" is an accessory for electronics, not electronics.
+const ACCESSORY =
+  /^\W*(?:sleeves?|cases?|covers?|bags?|stands?|chargers?|cables?|straps?|mounts?|holders?|skins?|(?:screen )?protectors?)\b/i;
+
+function findCategory(text: string): string | undefined {
+  for (const [pattern, category] of CATEGORY_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    const end = (match.index ?? 0) + match[0].length;
+    if (!ACCESSORY.test(text.slice(end))) return category;
+  }
   return undefined;
 }
 
-function findStockWarning(text: string): boolean {
-  return /subject to availability|availability not guaranteed/i.test(text);
+function findScopeLabels(source: SourceText): Clause[] {
+  const head = Math.min(source.text.length, TITLE_LENGTH);
+  const [title] = splitSpans(
+    source,
+    { start: 0, end: head, text: source.text.slice(0, head) },
+    CLAUSE_BREAK
+  );
+  const labels = title ? [title] : [];
+  for (const pattern of [BREADCRUMB, CONDITION_LABEL]) {
+    const match = source.text.match(pattern);
+    if (!match) continue;
+    const start = match.index ?? 0;
+    labels.push({ start, end: start + match[0].length, text: match[0] });
+  }
+  return labels;
+}
+
+function findProductScope(source: SourceText): Found<ReturnScope> | undefined {
+  const scope: ReturnScope = {};
+  let evidence: Evidence | undefined;
+  for (const label of findScopeLabels(source)) {
+    const category = findCategory(label.text);
+    const condition = CONDITION_PATTERNS.find(([pattern]) =>
+      pattern.test(label.text)
+    );
+    if (!category && !condition) continue;
+    if (category && !scope.category) scope.category = category;
+    if (condition && !scope.condition) scope.condition = condition[1];
+    evidence ??= toEvidence(
+      source,
+      label.start,
+      label.end - label.start,
+      "product_scope"
+    );
+  }
+  const sale = matchMapped(source, PRODUCT_SALE_PATTERNS);
+  if (sale) {
+    scope.sale = sale.value;
+    evidence ??= sale.evidence;
+  }
+  return evidence ? { value: scope, evidence } : undefined;
+}
+
+function toAllowed(
+  found: Found<PolicyTerms> | undefined
+): Found<boolean> | undefined {
+  if (!found) return undefined;
+  return { value: found.value !== "not_allowed", evidence: found.evidence };
+}
+
+function findPriceGuarantee(source: SourceText): Found<boolean> | undefined {
+  return matchMapped(source, [
+    [/price match|price guarantee|price guaranteed/i, true],
+    [/prices subject to change|reserve the right to change prices/i, false],
+  ]);
+}
+
+function findPricePolicy(
+  source: SourceText
+): Found<NonNullable<ExtractedFields["pricePolicy"]>> | undefined {
+  return matchMapped(source, [
+    [/price match/i, "price_match" as const],
+    [/price guarantee|price guaranteed/i, "price_guarantee" as const],
+    [
+      /prices subject to change|reserve the right to change prices/i,
+      "price_change" as const,
+    ],
+  ]);
+}
+
+function findStockWarning(source: SourceText): Found<boolean> | undefined {
+  return matchMapped(source, [
+    [/subject to availability|availability not guaranteed/i, true],
+  ]);
+}
+
+function findRestockingFee(source: SourceText): Found<Fee> | undefined {
+  const found = matchFirst(source, [
+    /restocking (?:fee|charge)[^.]{0,40}?(?:\d{1,2}(?:\.\d+)?\s?%|(?:[$€£₹¥]|rs\.?|inr|usd|eur|gbp)\s?\d)/i,
+    /\d{1,2}(?:\.\d+)?\s?% restocking/i,
+  ]);
+  if (!found) return undefined;
+  const start = found.match.index ?? 0;
+  if (/\bno\s+$/i.test(source.text.slice(Math.max(0, start - 4), start))) {
+    return undefined;
+  }
+
+  const snippet = found.evidence.snippet;
+  const percent = snippet.match(/(\d{1,2}(?:\.\d+)?)\s?%/);
+  const money = percent ? null : parseMoney(snippet);
+  const fee: Fee = percent
+    ? { percent: Number(percent[1]) }
+    : {
+        amount: money?.amount,
+        currency: money?.currency ?? undefined,
+      };
+  return { value: fee, evidence: found.evidence };
+}
+
+function findReturnShippingPaidBy(
+  source: SourceText
+): Found<"buyer" | "seller"> | undefined {
+  return matchMapped(source, [
+    [
+      /free returns?\b|free return (?:shipping|pickup)|prepaid return (?:label|shipping)|return shipping (?:is|will be) (?:free|covered by us)|we (?:will )?(?:cover|pay(?: for)?) (?:the )?return shipping/i,
+      "seller" as const,
+    ],
+    [
+      /(?:buyer|customer|you)s? (?:is |are |will be )?(?:responsible for|pays?|bears?|covers?) (?:the |all )?(?:cost of )?return (?:shipping|postage)/i,
+      "buyer" as const,
+    ],
+    [
+      /return (?:shipping|postage)(?: costs?| fees?| charges?)? (?:is |are |will be )?(?:not (?:free|covered|refunded)|non[-\s]?refundable|deducted|at (?:the )?(?:buyer|customer)'?s? (?:expense|cost))/i,
+      "buyer" as const,
+    ],
+    [
+      /(?:return|reverse) (?:shipping|pickup) (?:fee|charge)s? (?:of|apply|applies|will be)/i,
+      "buyer" as const,
+    ],
+  ]);
+}
+
+// "No handling fee" and "we never charge COD fees" are promises, not fees.
+const FEE_NEGATION =
+  /\b(?:no|never|without|free of|waive[sd]?|(?:do|does|will) not (?:charge|add|apply))\b[^.]*$/i;
+const FEE_WINDOW = 40;
+const MAX_FEE_MENTIONS = 20;
+
+function findExtraFees(source: SourceText): Found<ExtraFee[]> | undefined {
+  const table: Array<[RegExp, ExtraFee]> = [
+    [
+      /\bcod (?:fee|charge)s?|cash on delivery (?:fee|charge)s?|(?:fee|charge)s? (?:for|on) cash on delivery/i,
+      "cod",
+    ],
+    [
+      /convenience (?:fee|charge)s?|platform (?:fee|charge)s?|payment (?:processing )?(?:fee|charge)s?/i,
+      "convenience",
+    ],
+    [/handling (?:fee|charge)s?/i, "handling"],
+  ];
+  const found: Array<Found<ExtraFee>> = [];
+  for (const [pattern, fee] of table) {
+    let seen = 0;
+    for (const match of source.text.matchAll(new RegExp(pattern, "gi"))) {
+      if ((seen += 1) > MAX_FEE_MENTIONS) break;
+      const start = match.index ?? 0;
+      const before = source.text.slice(Math.max(0, start - FEE_WINDOW), start);
+      if (FEE_NEGATION.test(before)) continue;
+      found.push({
+        value: fee,
+        evidence: toEvidence(source, start, match[0].length, pattern.source),
+      });
+      break;
+    }
+  }
+  if (!found.length) return undefined;
+  return {
+    value: found.map((entry) => entry.value),
+    evidence: found[0].evidence,
+  };
+}
+
+function findFreeShippingThreshold(
+  source: SourceText
+): Found<Money> | undefined {
+  const found = matchFirst(source, [
+    /free (?:standard )?(?:shipping|delivery) (?:on|for) (?:all )?orders? (?:over|above|of|worth|exceeding) [^.]{0,20}/i,
+    /orders? (?:over|above|worth) [^.]{0,20}?(?:ship|get|qualify for) free (?:shipping|delivery)/i,
+  ]);
+  const money = found && parseMoney(found.evidence.snippet);
+  if (!found || !money) return undefined;
+  return { value: money, evidence: found.evidence };
+}
+
+function findFreeShipping(source: SourceText): Found<boolean> | undefined {
+  return matchMapped(source, [[/free (?:shipping|delivery)\b/i, true]]);
+}
+
+function findCosts(source: SourceText, evidence: EvidenceMap) {
+  return {
+    restockingFee: collect(
+      evidence,
+      "restockingFee",
+      findRestockingFee(source)
+    ),
+    returnShippingPaidBy: collect(
+      evidence,
+      "returnShippingPaidBy",
+      findReturnShippingPaidBy(source)
+    ),
+    extraFees: collect(evidence, "extraFees", findExtraFees(source)),
+    freeShipping: collect(evidence, "freeShipping", findFreeShipping(source)),
+    freeShippingThreshold: collect(
+      evidence,
+      "freeShippingThreshold",
+      findFreeShippingThreshold(source)
+    ),
+  };
+}
+
+function findRefundMethod(source: SourceText): Found<RefundMethod> | undefined {
+  return matchMapped(source, [
+    [
+      /exchanges? only|only (?:be )?(?:exchanged|replaced)|replacements? only|no refunds?,? (?:only |just )?(?:exchanges?|replacements?)/i,
+      "exchange_only" as const,
+    ],
+    [
+      /(?:store credit|gift cards?|vouchers?|wallet credit) only|only (?:as |in |via )?(?:a )?(?:store credit|gift cards?|vouchers?|wallet)/i,
+      "store_credit" as const,
+    ],
+    [
+      /(?:refund(?:ed|s)?|credited) (?:back )?to (?:the |your )?original (?:payment|method|source|card)|original (?:form|method|mode) of payment/i,
+      "original_payment" as const,
+    ],
+    [
+      /(?:refund(?:ed|s)?|issued|credited) (?:as|to|in the form of|via) (?:a |your )?(?:store credit|gift card|voucher|wallet)/i,
+      "store_credit" as const,
+    ],
+  ]);
+}
+
+function findRefundDays(source: SourceText): Found<number> | undefined {
+  const found = matchFirst(source, [
+    durationRegex(
+      "refund[^.]{0,60}?(?:within|in|takes?|up to|after)\\s+{duration}"
+    ),
+    durationRegex(
+      "{duration}[^.]{0,30}?(?:to|for) (?:process|issue|receive|credit) (?:a |your |the )?refund"
+    ),
+  ]);
+  const duration = found && durationFromMatch(found.match);
+  if (!found || !duration) return undefined;
+  return { value: toDays(duration), evidence: found.evidence };
+}
+
+function findRefundPromise(
+  source: SourceText
+): Found<"full_refund" | "money_back"> | undefined {
+  return matchMapped(source, [
+    [/money[-\s]back guarantee|money[-\s]back promise/i, "money_back" as const],
+    [/full refund|100% refund|refund guarantee/i, "full_refund" as const],
+  ]);
+}
+
+function findRefunds(source: SourceText, evidence: EvidenceMap) {
+  return {
+    refundMethod: collect(evidence, "refundMethod", findRefundMethod(source)),
+    refundDays: collect(evidence, "refundDays", findRefundDays(source)),
+    refundPromise: collect(
+      evidence,
+      "refundPromise",
+      findRefundPromise(source)
+    ),
+  };
+}
+
+function findDarkPatterns(text: string): Found<DarkPatterns> | undefined {
+  const patterns = detectDarkPatterns(text);
+  const first = Object.values(patterns)[0];
+  return first ? { value: patterns, evidence: first } : undefined;
+}
+
+function collect<K extends ExtractedField>(
+  evidence: EvidenceMap,
+  field: K,
+  found: Found<ExtractedFields[K]> | undefined
+): ExtractedFields[K] | undefined {
+  if (!found) return undefined;
+  evidence[field] = found.evidence;
+  return found.value;
 }
 
 export function extractClaims(productText: string): ExtractedClaims {
-  const text = normalize(productText);
-  const returnsDays = findReturnDays(text);
-  const warrantyMonths = findWarrantyMonths(text);
-  const stockStatus = findStockStatus(text);
-  const priceValue = findPriceValue(text);
-  const returnsAllowed = findReturnsAllowed(text);
-  const warrantyProvided = findWarrantyProvided(text);
-  const priceGuarantee = findPriceGuarantee(text);
+  const source = normalize(productText);
+  const evidence: EvidenceMap = {};
+  const returnsTerms = findTerms(source, RETURNS_MARKERS);
+  const warrantyTerms = findTerms(source, WARRANTY_MARKERS);
+  const list = findListPrice(source);
+  const sale = findSalePrice(source, list);
+  // The buyer pays the sale price, so "Was $80, now $60" is priced at $60.
+  const price = sale ?? findPrice(source);
 
   return {
-    returnsDays,
-    returnsAllowed,
-    warrantyMonths,
-    warrantyProvided,
-    stockStatus,
-    priceValue,
-    priceGuarantee,
+    returnsDays: collect(evidence, "returnsDays", findReturnDays(source)),
+    returnsAllowed: collect(evidence, "returnsAllowed", toAllowed(returnsTerms)),
+    returnsTerms: collect(evidence, "returnsTerms", returnsTerms),
+    warrantyMonths: collect(
+      evidence,
+      "warrantyMonths",
+      findWarrantyMonths(source)
+    ),
+    warrantyProvided: collect(
+      evidence,
+      "warrantyProvided",
+      toAllowed(warrantyTerms)
+    ),
+    warrantyTerms: collect(evidence, "warrantyTerms", warrantyTerms),
+    warranty: collect(evidence, "warranty", findWarrantyDetails(source)),
+    productScope: collect(evidence, "productScope", findProductScope(source)),
+    stockStatus: collect(evidence, "stockStatus", findStockStatus(source)),
+    priceValue: collect(
+      evidence,
+      "priceValue",
+      price && { value: price.value.amount, evidence: price.evidence }
+    ),
+    priceCurrency: collect(
+      evidence,
+      "priceCurrency",
+      price?.value.currency
+        ? { value: price.value.currency, evidence: price.evidence }
+        : undefined
+    ),
+    priceCurrencyAmbiguous: collect(
+      evidence,
+      "priceCurrencyAmbiguous",
+      price && hasAmbiguousCurrency(price.value)
+        ? { value: true, evidence: price.evidence }
+        : undefined
+    ),
+    priceGuarantee: collect(
+      evidence,
+      "priceGuarantee",
+      findPriceGuarantee(source)
+    ),
+    ...findPricing(source, evidence, list, sale),
+    ...findCosts(source, evidence),
+    ...findRefunds(source, evidence),
+    darkPatterns: collect(
+      evidence,
+      "darkPatterns",
+      findDarkPatterns(productText)
+    ),
+    evidence,
   };
 }
 
 export function extractPolicy(policyText: string): ExtractedPolicy {
-  const text = normalize(policyText);
-  const returnsDays = findReturnDays(text);
-  const warrantyMonths = findWarrantyMonths(text);
-  const returnsAllowed = findReturnsAllowed(text);
-  const warrantyProvided = findWarrantyProvided(text);
-  const pricePolicy = findPricePolicy(text);
-  const stockWarning = findStockWarning(text);
+  const source = normalize(policyText);
+  const evidence: EvidenceMap = {};
+  const returnsTerms = findTerms(source, RETURNS_MARKERS);
+  const warrantyTerms = findTerms(source, WARRANTY_MARKERS);
+
+  return {
+    returnsDays: collect(evidence, "returnsDays", findReturnDays(source)),
+    returnsAllowed: collect(evidence, "returnsAllowed", toAllowed(returnsTerms)),
+    returnsTerms: collect(evidence, "returnsTerms", returnsTerms),
+    warrantyMonths: collect(
+      evidence,
+      "warrantyMonths",
+      findWarrantyMonths(source)
+    ),
+    warrantyProvided: collect(
+      evidence,
+      "warrantyProvided",
+      toAllowed(warrantyTerms)
+    ),
+    warrantyTerms: collect(evidence, "warrantyTerms", warrantyTerms),
+    warranty: collect(evidence, "warranty", findWarrantyDetails(source)),
+    returnRules: collect(evidence, "returnRules", findReturnRules(source)),
+    pricePolicy: collect(evidence, "pricePolicy", findPricePolicy(source)),
+    stockWarning:
+      collect(evidence, "stockWarning", findStockWarning(source)) ?? false,
+    ...findCosts(source, evidence),
+    ...findRefunds(source, evidence),
+    evidence,
+  };
+}
+
+// Structured data is published by the store for machines, so where it states
+// a value it wins over what the text patterns found.
+export function applyStructuredData(
+  claims: ExtractedClaims,
+  product: StructuredProduct
+): ExtractedClaims {
+  const offer = primaryOffer(product);
+  const returnPolicy = product.returnPolicy;
+  const evidence: EvidenceMap = { ...claims.evidence };
+  const fromJsonLd = (field: ExtractedField, label: string, value: unknown) => {
+    evidence[field] = {
+      snippet: `${label}: ${String(value)}`,
+      source: product.source.start === undefined ? "platform" : "html",
+      start: product.source.start,
+      end: product.source.end,
+      pattern: product.source.format,
+    };
+  };
+
+  const next: ExtractedClaims = { ...claims, evidence };
+  if (offer?.price !== undefined) {
+    next.priceValue = offer.price;
+    fromJsonLd("priceValue", "price", offer.price);
+  }
+  if (offer?.price !== undefined && offer.listPrice !== undefined) {
+    next.salePrice = offer.price;
+    fromJsonLd("salePrice", "price", offer.price);
+  }
+  if (offer?.listPrice !== undefined) {
+    next.listPrice = offer.listPrice;
+    fromJsonLd("listPrice", "listPrice", offer.listPrice);
+  }
+  if (offer?.currency) {
+    next.priceCurrency = offer.currency;
+    next.priceCurrencyAmbiguous = undefined;
+    delete evidence.priceCurrencyAmbiguous;
+    fromJsonLd("priceCurrency", "priceCurrency", offer.currency);
+  }
+  if (offer?.availability) {
+    next.stockStatus = offer.availability;
+    fromJsonLd("stockStatus", "availability", offer.availability);
+  }
+  if (returnPolicy?.allowed !== undefined) {
+    next.returnsAllowed = returnPolicy.allowed;
+    fromJsonLd("returnsAllowed", "returnsPermitted", returnPolicy.allowed);
+  }
+  if (returnPolicy?.days !== undefined) {
+    next.returnsDays = returnPolicy.days;
+    fromJsonLd("returnsDays", "merchantReturnDays", returnPolicy.days);
+  }
+  if (returnPolicy?.fees === "free") {
+    next.returnShippingPaidBy = "seller";
+    fromJsonLd("returnShippingPaidBy", "returnFees", "FreeReturn");
+  }
+  if (returnPolicy?.fees === "buyer_pays") {
+    next.returnShippingPaidBy = "buyer";
+    fromJsonLd("returnShippingPaidBy", "returnFees", "customer pays");
+  }
+  if (product.warrantyMonths !== undefined) {
+    next.warrantyMonths = product.warrantyMonths;
+    next.warrantyProvided = product.warrantyMonths > 0;
+    fromJsonLd("warrantyMonths", "durationOfWarranty", product.warrantyMonths);
+  }
+  const category = findCategory(
+    [product.category, product.name].filter(Boolean).join(" > ")
+  );
+  if (category || product.condition) {
+    const scope: ReturnScope = { ...next.productScope };
+    if (category) scope.category = category;
+    // An item the store marks as new isn't used because its title says so.
+    if (product.condition === "new") delete scope.condition;
+    else if (product.condition) scope.condition = product.condition;
+    next.productScope = Object.keys(scope).length ? scope : undefined;
+    fromJsonLd(
+      "productScope",
+      product.condition ? "itemCondition" : "category",
+      product.condition ?? product.category ?? product.name
+    );
+  }
+  return next;
+}
+
+// Site adapters read the struck-through price from the page's markup, which
+// the text patterns can miss when it has no label.
+export function applyListPrice(
+  claims: ExtractedClaims,
+  listPrice: Money
+): ExtractedClaims {
+  if (claims.listPrice !== undefined) return claims;
+  return {
+    ...claims,
+    listPrice: listPrice.amount,
+    evidence: {
+      ...claims.evidence,
+      listPrice: {
+        snippet: listPrice.raw,
+        source: "adapter",
+        pattern: "adapter",
+      },
+    },
+  };
+}
 
+export function applyPreselectedAddon(
+  claims: ExtractedClaims,
+  document: HtmlElement
+): ExtractedClaims {
+  if (claims.darkPatterns?.preselected_addon) return claims;
+  const addon = findPreselectedAddon(document);
+  if (!addon) return claims;
   return {
-    returnsDays,
-    returnsAllowed,
-    warrantyMonths,
-    warrantyProvided,
-    pricePolicy,
-    stockWarning,
+    ...claims,
+    darkPatterns: { ...claims.darkPatterns, preselected_addon: addon },
+    evidence: {
+      ...claims.evidence,
+      darkPatterns: claims.evidence.darkPatterns ?? addon,
+    },
   };
 }
@@ -0,0 +1,386 @@
+export type HtmlElement = {
+  tag: string;
+  attributes: Record<string, string>;
+  children: Array<HtmlElement | string>;
+  parent: HtmlElement | null;
+  start: number;
+  end: number;
+};
+
+type AttributeTest = {
+  name: string;
+  operator?: "=" | "~=" | "^=" | "$=" | "*=";
+  value?: string;
+};
+
+type Compound = {
+  tag?: string;
+  id?: string;
+  classes: string[];
+  attributes: AttributeTest[];
+};
+
+type Step = {
+  compound: Compound;
+  combinator: "descendant" | "child";
+};
+
+// Unquoted attribute text stops at the next "<" and an unclosed comment runs
+// to the end of the input, so a page full of stray "<" or "<!--" costs one
+// pass instead of one pass per stray token.
+const TOKEN =
+  /<!--(?:[\s\S]*?-->|[\s\S]*$)|<(\/?)([a-zA-Z][\w:-]*)((?:[^<>"']|"[^"]*"|'[^']*')*)>/g;
+
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+const SELECTOR_TOKEN =
+  /\s*(>)\s*|(\s+)|#([\w-]+)|\.([\w-]+)|\[\s*([\w:-]+)\s*(?:([~^$*]?=)\s*(?:"([^"]*)"|'([^']*)'|([^\]\s]+))\s*)?\]|([a-zA-Z][\w-]*|\*)/y;
+
+const VOID_TAGS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+const RAW_TEXT_TAGS = new Set([
+  "script",
+  "style",
+  "template",
+  "noscript",
+  "textarea",
+]);
+
+const HIDDEN_TAGS = new Set(["script", "style", "template", "noscript"]);
+
+const BLOCK_TAGS = new Set([
+  "address",
+  "article",
+  "aside",
+  "br",
+  "dd",
+  "div",
+  "dl",
+  "dt",
+  "footer",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "header",
+  "hr",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "p",
+  "section",
+  "table",
+  "td",
+  "th",
+  "tr",
+  "ul",
+]);
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  rupee: "₹",
+  euro: "€",
+  pound: "£",
+  yen: "¥",
+};
+
+// Anything past this is dropped before parsing; real product pages are well
+// under it, and every pass over the input is bounded by it.
+export const MAX_HTML_LENGTH = 5_000_000;
+
+// Browsers stop nesting at 512 levels too. Deeper elements become siblings,
+// which keeps selector matching and the recursive walks cheap.
+const MAX_DEPTH = 512;
+
+const selectorCache = new Map<string, Step[][]>();
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    const key = String(code).toLowerCase();
+    if (!key.startsWith("#")) return ENTITIES[key] ?? entity;
+    const point = key.startsWith("#x")
+      ? parseInt(key.slice(2), 16)
+      : Number(key.slice(1));
+    return point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+  });
+}
+
+function readAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const value = match[2] ?? match[3] ?? match[4] ?? "";
+    attributes[match[1].toLowerCase()] = decodeEntities(value);
+  }
+  return attributes;
+}
+
+// A forgiving tree builder rather than a spec-compliant parser: it only needs
+// to be good enough for selectors and structured data, and it has to run the
+// same way in route handlers and in the browser.
+export function parseHtml(input: string): HtmlElement {
+  const html = input.slice(0, MAX_HTML_LENGTH);
+  const root: HtmlElement = {
+    tag: "#document",
+    attributes: {},
+    children: [],
+    parent: null,
+    start: 0,
+    end: html.length,
+  };
+  const stack: HtmlElement[] = [root];
+  let cursor = 0;
+  let rawText: HtmlElement | null = null;
+
+  const current = () => stack[stack.length - 1];
+
+  for (const match of html.matchAll(TOKEN)) {
+    const index = match.index ?? 0;
+    const [token, closing, rawTag, rawAttributes] = match;
+    const tag = rawTag?.toLowerCase();
+
+    if (rawText) {
+      if (!closing || tag !== rawText.tag) continue;
+      rawText.children.push(html.slice(cursor, index));
+      rawText.end = index + token.length;
+      rawText = null;
+      cursor = index + token.length;
+      continue;
+    }
+
+    if (index > cursor) {
+      current().children.push(decodeEntities(html.slice(cursor, index)));
+    }
+    cursor = index + token.length;
+    if (!tag) continue;
+
+    if (closing) {
+      const openIndex = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (openIndex < 1) continue;
+      // Unclosed children (<p>, <li>) are closed along with their parent.
+      for (const element of stack.splice(openIndex)) {
+        element.end = index + token.length;
+      }
+      continue;
+    }
+
+    const element: HtmlElement = {
+      tag,
+      attributes: readAttributes(rawAttributes ?? ""),
+      children: [],
+      parent: current(),
+      start: index,
+      end: index + token.length,
+    };
+    current().children.push(element);
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      rawText = element;
+    } else if (
+      stack.length < MAX_DEPTH &&
+      !VOID_TAGS.has(tag) &&
+      !/\/\s*$/.test(rawAttributes ?? "")
+    ) {
+      stack.push(element);
+    }
+  }
+
+  if (rawText) {
+    rawText.children.push(html.slice(cursor));
+  } else if (cursor < html.length) {
+    current().children.push(decodeEntities(html.slice(cursor)));
+  }
+  return root;
+}
+
+function parseCompoundList(selector: string): Step[][] {
+  const cached = selectorCache.get(selector);
+  if (cached) return cached;
+
+  const list: Step[][] = [];
+  let steps: Step[] = [];
+  let compound: Compound = { classes: [], attributes: [] };
+  let combinator: Step["combinator"] = "descendant";
+  let hasCompound = false;
+
+  const flush = () => {
+    if (!hasCompound) return;
+    steps.push({ compound, combinator });
+    compound = { classes: [], attributes: [] };
+    combinator = "descendant";
+    hasCompound = false;
+  };
+
+  for (const part of selector.split(",")) {
+    SELECTOR_TOKEN.lastIndex = 0;
+    const text = part.trim();
+    while (SELECTOR_TOKEN.lastIndex < text.length) {
+      const match = SELECTOR_TOKEN.exec(text);
+      if (!match) throw new Error(`Unsupported selector: ${selector}`);
+      const [, child, space, id, className, name, operator] = match;
+      if (child || space) {
+        flush();
+        if (child) combinator = "child";
+      } else if (id) {
+        compound.id = id;
+      } else if (className) {
+        compound.classes.push(className);
+      } else if (name) {
+        compound.attributes.push({
+          name: name.toLowerCase(),
+          operator: operator as AttributeTest["operator"],
+          value: match[7] ?? match[8] ?? match[9],
+        });
+      } else if (match[10] !== "*") {
+        compound.tag = match[10].toLowerCase();
+      }
+      if (!child && !space) hasCompound = true;
+    }
+    flush();
+    if (steps.length) list.push(steps);
+    steps = [];
+  }
+
+  selectorCache.set(selector, list);
+  return list;
+}
+
+function matchesAttribute(element: HtmlElement, test: AttributeTest): boolean {
+  const actual = element.attributes[test.name];
+  if (actual === undefined) return false;
+  if (!test.operator || test.value === undefined) return true;
+  switch (test.operator) {
+    case "=":
+      return actual === test.value;
+    case "~=":
+      return actual.split(/\s+/).includes(test.value);
+    case "^=":
+      return actual.startsWith(test.value);
+    case "$=":
+      return actual.endsWith(test.value);
+    case "*=":
+      return actual.includes(test.value);
+  }
+}
+
+function matchesCompound(element: HtmlElement, compound: Compound) {
+  if (compound.tag && element.tag !== compound.tag) return false;
+  if (compound.id && element.attributes.id !== compound.id) return false;
+  if (compound.classes.length) {
+    if (!element.attributes.class) return false;
+    const classes = element.attributes.class.split(/\s+/);
+    if (!compound.classes.every((name) => classes.includes(name))) {
+      return false;
+    }
+  }
+  return compound.attributes.every((test) => matchesAttribute(element, test));
+}
+
+function matchesSteps(
+  element: HtmlElement,
+  steps: Step[],
+  index: number
+): boolean {
+  if (!matchesCompound(element, steps[index].compound)) return false;
+  if (index === 0) return true;
+  let ancestor = element.parent;
+  if (steps[index].combinator === "child") {
+    return Boolean(ancestor) && matchesSteps(ancestor!, steps, index - 1);
+  }
+  const previous = steps[index - 1];
+  while (ancestor && ancestor.tag !== "#document") {
+    if (matchesSteps(ancestor, steps, index - 1)) return true;
+    // When the step before is itself a descendant step, a farther ancestor
+    // can't succeed where the nearest matching one failed.
+    if (
+      previous.combinator === "descendant" &&
+      matchesCompound(ancestor, previous.compound)
+    ) {
+      return false;
+    }
+    ancestor = ancestor.parent;
+  }
+  return false;
+}
+
+// Iterative so that deep trees don't resume a generator per level.
+function* walk(root: HtmlElement): Generator<HtmlElement> {
+  const stack = [root];
+  while (stack.length) {
+    const element = stack.pop()!;
+    if (element !== root) yield element;
+    for (let index = element.children.length - 1; index >= 0; index -= 1) {
+      const child = element.children[index];
+      if (typeof child !== "string") stack.push(child);
+    }
+  }
+}
+
+export function querySelectorAll(
+  root: HtmlElement,
+  selector: string
+): HtmlElement[] {
+  const list = parseCompoundList(selector);
+  const found: HtmlElement[] = [];
+  for (const element of walk(root)) {
+    if (list.some((steps) => matchesSteps(element, steps, steps.length - 1))) {
+      found.push(element);
+    }
+  }
+  return found;
+}
+
+export function querySelector(
+  root: HtmlElement,
+  selector: string
+): HtmlElement | null {
+  const list = parseCompoundList(selector);
+  for (const element of walk(root)) {
+    if (list.some((steps) => matchesSteps(element, steps, steps.length - 1))) {
+      return element;
+    }
+  }
+  return null;
+}
+
+// Visible text, roughly what innerText would give: scripts and styles are
+// skipped and block elements are separated so words don't run together.
+export function textContent(element: HtmlElement): string {
+  if (HIDDEN_TAGS.has(element.tag)) return "";
+  const text = element.children
+    .map((child) => (typeof child === "string" ? child : textContent(child)))
+    .join("");
+  return BLOCK_TAGS.has(element.tag) ? ` ${text} ` : text;
+}
+
+// Raw contents of a <script> or <style>, where entities are not decoded.
+export function rawText(element: HtmlElement): string {
+  return element.children
+    .filter((child): child is string => typeof child === "string")
+    .join("");
+}
+
+export function visibleText(root: HtmlElement): string {
+  return textContent(root).replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,135 @@
+import { textContent } from "./html";
+import type { HtmlElement } from "./html";
+import { parseMoney } from "./money";
+import {
+  isProductNode,
+  mergeStructured,
+  parseProductNode,
+} from "./structuredData";
+import type { JsonObject, StructuredProduct } from "./structuredData";
+
+type Item = {
+  node: JsonObject;
+  format: "microdata" | "rdfa";
+  start: number;
+  end: number;
+  // Used when the item has no priceCurrency of its own.
+  textCurrency?: string;
+};
+
+const URL_TAGS: Record<string, string> = {
+  a: "href",
+  area: "href",
+  link: "href",
+  img: "src",
+  source: "src",
+  video: "src",
+  audio: "src",
+  iframe: "src",
+  object: "data",
+};
+
+// RDFa properties are often prefixed ("schema:price"); microdata item types
+// are full URLs. Both reduce to the bare schema.org term.
+const bareTerm = (value: string) =>
+  value
+    .replace(/^https?:\/\/schema\.org\//i, "")
+    .replace(/^schema:/i, "")
+    .trim();
+
+const splitTerms = (value: string | undefined) =>
+  (value ?? "").split(/\s+/).map(bareTerm).filter(Boolean);
+
+function addProperty(owner: Item, names: string[], value: unknown) {
+  for (const name of names) {
+    const existing = owner.node[name];
+    owner.node[name] =
+      existing === undefined
+        ? value
+        : Array.isArray(existing)
+          ? [...existing, value]
+          : [existing, value];
+  }
+}
+
+// Prices marked up on visible text ("$19.99") carry the currency symbol that
+// a machine-readable value would put in priceCurrency.
+const PRICE_PROPERTIES = ["price", "lowPrice", "highPrice"];
+
+function attributeValue(element: HtmlElement): string | undefined {
+  const { tag, attributes } = element;
+  if ("content" in attributes) return attributes.content;
+  const urlAttribute = URL_TAGS[tag];
+  if (urlAttribute && attributes[urlAttribute]) return attributes[urlAttribute];
+  if (tag === "time" && attributes.datetime) return attributes.datetime;
+  if ((tag === "data" || tag === "meter") && attributes.value) {
+    return attributes.value;
+  }
+  return undefined;
+}
+
+function readItems(element: HtmlElement, owner: Item | null, items: Item[]) {
+  for (const child of element.children) {
+    if (typeof child === "string") continue;
+    const { attributes } = child;
+    const microdataScope = "itemscope" in attributes;
+    const rdfaScope = "typeof" in attributes;
+    const names = splitTerms(attributes.itemprop ?? attributes.property);
+
+    if (microdataScope || rdfaScope) {
+      const item: Item = {
+        node: {
+          "@type": splitTerms(
+            microdataScope ? attributes.itemtype : attributes.typeof
+          ),
+        },
+        format: microdataScope ? "microdata" : "rdfa",
+        start: child.start,
+        end: child.end,
+      };
+      items.push(item);
+      if (owner && names.length) addProperty(owner, names, item.node);
+      readItems(child, item, items);
+      continue;
+    }
+
+    if (owner && names.length) {
+      const attribute = attributeValue(child);
+      const value = (attribute ?? textContent(child))
+        .replace(/\s+/g, " ")
+        .trim();
+      const money =
+        attribute === undefined &&
+        names.some((name) => PRICE_PROPERTIES.includes(name))
+          ? parseMoney(value)
+          : null;
+      addProperty(owner, names, money ? String(money.amount) : value);
+      if (money?.currency) owner.textCurrency ??= money.currency;
+    }
+    readItems(child, owner, items);
+  }
+  return items;
+}
+
+export function parseMicrodata(
+  document: HtmlElement
+): StructuredProduct | null {
+  const items = readItems(document, null, []);
+  for (const item of items) {
+    if (item.textCurrency && item.node.priceCurrency === undefined) {
+      item.node.priceCurrency = item.textCurrency;
+    }
+  }
+  const nodes = items.map((item) => item.node);
+  return mergeStructured(
+    ...items
+      .filter((item) => isProductNode(item.node))
+      .map((item) =>
+        parseProductNode(item.node, nodes, {
+          format: item.format,
+          start: item.start,
+          end: item.end,
+        })
+      )
+  );
+}
@@ -1,3 +1,5 @@
+import type { PageProvider } from "./pageProvider";
+
 export type MinoPolicyPage = {
   url: string;
   text: string;
@@ -13,7 +15,7 @@ export type MinoResult = {
   productDescription?: string;
 };
 
-type RawMinoResult = {
+export type RawMinoResult = {
   productUrl?: unknown;
   productText?: unknown;
   policyPages?: unknown;
@@ -72,55 +74,12 @@ function extractJsonFromSse(raw: string): string | null {
   return lastPayload;
 }
 
-export async function runMinoAgent(url: string): Promise<MinoResult> {
-  const apiUrl = process.env.MINO_API_URL;
-  const apiKey = process.env.MINO_API_KEY;
-  if (!apiUrl || !apiKey) {
-    throw new Error("MINO_API_URL or MINO_API_KEY is not set");
-  }
-
-  const useSse = looksLikeSseEndpoint(apiUrl);
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-  };
-  if (useSse) {
-    headers["X-API-Key"] = apiKey;
-  } else {
-    headers.Authorization = `Bearer ${apiKey}`;
-  }
-
-  const body = useSse
-    ? JSON.stringify({ url, goal: PROMPT })
-    : JSON.stringify({ prompt: PROMPT, data: { url } });
-
-  const res = await fetch(apiUrl, {
-    method: "POST",
-    headers,
-    body,
-  });
-
-  if (!res.ok) {
-    const message = await res.text();
-    const snippet = message.slice(0, 400);
-    console.error("Mino API error", { status: res.status, snippet });
-    throw new Error(`Mino API error: ${res.status}`);
-  }
-
-  const raw = await res.text();
-  if (!raw.trim()) {
-    console.error("Mino API empty response");
-  }
-  const jsonText = useSse ? extractJsonFromSse(raw) : raw;
-  if (!jsonText) {
-    throw new Error("Mino API response did not include JSON data");
-  }
-  let parsed: RawMinoResult;
-  try {
-    parsed = JSON.parse(jsonText) as RawMinoResult;
-  } catch {
-    throw new Error("Mino API response was not valid JSON");
-  }
-
+// Also used for recorded agent responses, which go through the same
+// validation as live ones.
+export function parseMinoResult(
+  parsed: RawMinoResult,
+  url: string
+): MinoResult {
   const productUrl =
     typeof parsed.productUrl === "string" ? parsed.productUrl : url;
   const productText =
@@ -171,3 +130,63 @@ export async function runMinoAgent(url: string): Promise<MinoResult> {
     productDescription,
   };
 }
+
+export async function runMinoAgent(url: string): Promise<MinoResult> {
+  const apiUrl = process.env.MINO_API_URL;
+  const apiKey = process.env.MINO_API_KEY;
+  if (!apiUrl || !apiKey) {
+    throw new Error("MINO_API_URL or MINO_API_KEY is not set");
+  }
+
+  const useSse = looksLikeSseEndpoint(apiUrl);
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (useSse) {
+    headers["X-API-Key"] = apiKey;
+  } else {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const body = useSse
+    ? JSON.stringify({ url, goal: PROMPT })
+    : JSON.stringify({ prompt: PROMPT, data: { url } });
+
+  const res = await fetch(apiUrl, {
+    method: "POST",
+    headers,
+    body,
+  });
+
+  if (!res.ok) {
+    const message = await res.text();
+    const snippet = message.slice(0, 400);
+    console.error("Mino API error", { status: res.status, snippet });
+    throw new Error(`Mino API error: ${res.status}`);
+  }
+
+  const raw = await res.text();
+  if (!raw.trim()) {
+    console.error("Mino API empty response");
+  }
+  const jsonText = useSse ? extractJsonFromSse(raw) : raw;
+  if (!jsonText) {
+    throw new Error("Mino API response did not include JSON data");
+  }
+  let parsed: RawMinoResult;
+  try {
+    parsed = JSON.parse(jsonText) as RawMinoResult;
+  } catch {
+    throw new Error("Mino API response was not valid JSON");
+  }
+
+  return parseMinoResult(parsed, url);
+}
+
+export const minoProvider: PageProvider = {
+  id: "mino",
+  label: "Mino agent",
+  isConfigured: () =>
+    Boolean(process.env.MINO_API_URL && process.env.MINO_API_KEY),
+  capture: runMinoAgent,
+};
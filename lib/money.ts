@@ -0,0 +1,137 @@
+export type Money = {
+  amount: number;
+  currency: string | null;
+  raw: string;
+};
+
+const CURRENCY_TOKENS: Record<string, string> = {
+  "US$": "USD",
+  "CA$": "CAD",
+  "C$": "CAD",
+  "AU$": "AUD",
+  "A$": "AUD",
+  "RS.": "INR",
+  RS: "INR",
+  INR: "INR",
+  USD: "USD",
+  EUR: "EUR",
+  GBP: "GBP",
+  CAD: "CAD",
+  AUD: "AUD",
+  JPY: "JPY",
+  CNY: "CNY",
+  CHF: "CHF",
+  "₹": "INR",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  $: "USD",
+};
+
+const AMBIGUOUS_TOKENS = new Set(["$", "¥"]);
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const CURRENCY_PATTERN = Object.keys(CURRENCY_TOKENS)
+  .sort((a, b) => b.length - a.length)
+  .map((token) =>
+    /^[A-Z]/.test(token) ? `\\b${escapeRegex(token)}` : escapeRegex(token)
+  )
+  .join("|");
+
+// Grouped amounts ("1,29,999.00", "1.299,00", "1 299") are tried before plain
+// digit runs so the grouping is never split in half. Amounts only start at the
+// beginning of a digit run and have a bounded length, so a long run of digits
+// is rejected in one step instead of being retried from every position.
+const AMOUNT_PATTERN =
+  "(?<!\\d)(?:\\d{1,3}(?:[.,'\\u00a0\\u202f]\\d{2,3}){1,5}(?:[.,]\\d{1,2})?|\\d{1,12}(?:[.,]\\d{1,2})?)(?!\\d)";
+
+const PREFIX_REGEX = new RegExp(
+  `(${CURRENCY_PATTERN})\\s?(${AMOUNT_PATTERN})`,
+  "i"
+);
+
+// A currency token followed by an amount belongs to that amount, so in
+// "Pack of 2 $19.99" the "$" is not read as a suffix to the 2.
+const SUFFIX_REGEX = new RegExp(
+  `(${AMOUNT_PATTERN})\\s?(${CURRENCY_PATTERN})(?![A-Za-z]|\\s?\\d)`,
+  "i"
+);
+
+function resolveCurrency(token: string): string | null {
+  return CURRENCY_TOKENS[token.toUpperCase()] ?? null;
+}
+
+export function parseAmount(raw: string): number | null {
+  const cleaned = raw.replace(/['\s]/g, "");
+  if (!/^\d[\d.,]*$/.test(cleaned)) return null;
+
+  const lastSeparator = Math.max(
+    cleaned.lastIndexOf("."),
+    cleaned.lastIndexOf(",")
+  );
+  if (lastSeparator === -1) return Number(cleaned);
+
+  const separator = cleaned[lastSeparator];
+  const fraction = cleaned.slice(lastSeparator + 1);
+  const repeated = cleaned.indexOf(separator) !== lastSeparator;
+  const mixed = cleaned.includes(separator === "." ? "," : ".");
+  // "1.299,00" and "1,299.50": with both separators present the last one is
+  // the decimal point; on its own, three trailing digits mean thousands.
+  const isDecimal =
+    !repeated && (mixed || (fraction.length > 0 && fraction.length !== 3));
+
+  const integerPart = isDecimal ? cleaned.slice(0, lastSeparator) : cleaned;
+  const digits = integerPart.replace(/[.,]/g, "");
+  const value = isDecimal ? Number(`${digits}.${fraction}`) : Number(digits);
+  return Number.isFinite(value) ? value : null;
+}
+
+// Structured data (schema.org, embedded JSON) always uses "." for decimals,
+// so "19.990" is 19.99 dinars, not 19,990. Only amounts that don't follow
+// that form get the locale guessing meant for display text.
+export function parseDataAmount(raw: string): number | null {
+  const value = raw.trim();
+  return /^\d+(?:\.\d+)?$/.test(value) ? Number(value) : parseAmount(value);
+}
+
+export function parseMoney(text: string): Money | null {
+  const prefix = text.match(PREFIX_REGEX);
+  const suffix = text.match(SUFFIX_REGEX);
+  const usePrefix =
+    prefix &&
+    (!suffix || (prefix.index ?? 0) <= (suffix.index ?? 0));
+
+  const currencyToken = usePrefix ? prefix[1] : suffix?.[2];
+  const amountText = usePrefix ? prefix[2] : suffix?.[1];
+  const raw = usePrefix ? prefix[0] : suffix?.[0];
+  if (!currencyToken || !amountText || !raw) return null;
+
+  const amount = parseAmount(amountText);
+  if (amount === null) return null;
+
+  return {
+    amount,
+    currency: resolveCurrency(currencyToken),
+    raw: raw.trim(),
+  };
+}
+
+// "$" is also Canadian and Australian and "¥" also Chinese, so on its own the
+// symbol doesn't settle the currency.
+export function hasAmbiguousCurrency(money: Money): boolean {
+  return AMBIGUOUS_TOKENS.has(money.raw.replace(/[\d.,'\s]/g, ""));
+}
+
+export function formatMoney(money: Money): string {
+  if (!money.currency) return money.raw;
+  try {
+    return new Intl.NumberFormat("en", {
+      style: "currency",
+      currency: money.currency,
+    }).format(money.amount);
+  } catch {
+    return money.raw;
+  }
+}
@@ -0,0 +1,12 @@
+import type { MinoResult } from "./mino";
+
+export type PageProviderId = "mino" | "puppeteer";
+
+// Anything that can render a product page and return its visible text,
+// a screenshot and the text of the store's policy pages.
+export type PageProvider = {
+  id: string;
+  label: string;
+  isConfigured: () => boolean;
+  capture: (url: string) => Promise<MinoResult>;
+};
@@ -0,0 +1,35 @@
+import { availabilityFromText, getFirst, getMeta, getText } from "../helpers";
+import type { SiteAdapter } from "../types";
+
+export const amazonAdapter: SiteAdapter = {
+  id: "amazon",
+  hosts: ["amazon.*"],
+  extract: ({ document: doc }) => ({
+    title: getFirst([getText(doc, "#productTitle"), getMeta(doc, "og:title")]),
+    price: getFirst([
+      getText(doc, "#priceblock_ourprice"),
+      getText(doc, "#priceblock_dealprice"),
+      getText(doc, "#priceblock_saleprice"),
+      getText(doc, ".a-price .a-offscreen"),
+      getText(doc, "[data-a-color='price'] .a-offscreen"),
+    ]),
+    listPrice: getFirst([
+      getText(doc, ".basisPrice .a-offscreen"),
+      getText(doc, "[data-a-strike='true'] .a-offscreen"),
+      getText(doc, "#listPrice"),
+    ]),
+    seller: getFirst([
+      getText(doc, "#sellerProfileTriggerId"),
+      getText(
+        doc,
+        "#merchantInfoFeature_feature_div .offer-display-feature-text"
+      ),
+    ]),
+    description: getFirst([
+      getText(doc, "#productDescription"),
+      getText(doc, "#feature-bullets"),
+      getText(doc, "[data-feature-name='product-description']"),
+    ]),
+    availability: availabilityFromText(getText(doc, "#availability")),
+  }),
+};
@@ -0,0 +1,45 @@
+import { getFirst, getMeta, getText, getAttribute } from "../helpers";
+import type { SiteAdapter } from "../types";
+import type { StockAvailability } from "@/lib/structuredData";
+
+const BUTTON_STATES: Record<string, StockAvailability> = {
+  ADD_TO_CART: "in_stock",
+  PRE_ORDER: "preorder",
+  SOLD_OUT: "out_of_stock",
+  COMING_SOON: "out_of_stock",
+  UNAVAILABLE: "out_of_stock",
+};
+
+// Best Buy marks its buy box with data-testid and the add-to-cart button
+// with data-button-state, which is more reliable than the button label.
+export const bestBuyAdapter: SiteAdapter = {
+  id: "bestbuy",
+  hosts: ["bestbuy.com"],
+  extract: ({ document: doc }) => {
+    const buttonState = getAttribute(
+      doc,
+      "button[data-button-state]",
+      "data-button-state"
+    );
+    return {
+      title: getFirst([getText(doc, ".sku-title h1"), getText(doc, "h1")]),
+      price: getFirst([
+        getText(doc, "[data-testid='customer-price'] span"),
+        getText(doc, ".priceView-customer-price span"),
+      ]),
+      listPrice: getFirst([
+        getText(doc, "[data-testid='regular-price'] span"),
+        getText(doc, ".pricing-price__regular-price"),
+      ])?.replace(/^was\s*/i, ""),
+      seller: getFirst([
+        getText(doc, "[data-testid='marketplace-seller-name']"),
+        "Best Buy",
+      ]),
+      description: getFirst([
+        getText(doc, "[data-testid='product-description']"),
+        getMeta(doc, "description"),
+      ]),
+      availability: buttonState ? (BUTTON_STATES[buttonState] ?? null) : null,
+    };
+  },
+};
@@ -0,0 +1,47 @@
+import { availabilityFromText, getFirst, getMeta, getText } from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// eBay's item page tags each buy-box section with a data-testid that has
+// outlived several redesigns; the description itself lives in an iframe.
+export const ebayAdapter: SiteAdapter = {
+  id: "ebay",
+  hosts: ["ebay.*"],
+  extract: ({ document: doc }) => ({
+    title: getFirst([
+      getText(doc, "[data-testid='x-item-title'] h1"),
+      getText(doc, "h1.x-item-title__mainTitle"),
+    ]),
+    price: getFirst([
+      getText(doc, "[data-testid='x-price-primary']"),
+      getText(doc, "[itemprop='price']"),
+    ]),
+    listPrice: getFirst([
+      getText(
+        doc,
+        "[data-testid='x-price-original'] .ux-textspans--STRIKETHROUGH"
+      ),
+      getText(doc, ".x-additional-info .ux-textspans--STRIKETHROUGH"),
+    ]),
+    seller: getFirst([
+      getText(
+        doc,
+        "[data-testid='x-sellercard-atf'] [data-testid='str-title'] a"
+      ),
+      getText(doc, ".x-sellercard-atf__info__about-seller a"),
+    ]),
+    description: getFirst([
+      getText(
+        doc,
+        "[data-testid='x-about-this-item'] .ux-layout-section__item"
+      ),
+      getMeta(doc, "description"),
+    ]),
+    availability: availabilityFromText(
+      getFirst([
+        getText(doc, "[data-testid='x-quantity'] .d-quantity__availability"),
+        getText(doc, ".d-quantity__availability"),
+        getText(doc, "[data-testid='d-statusmessage']"),
+      ])
+    ),
+  }),
+};
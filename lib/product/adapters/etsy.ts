@@ -0,0 +1,34 @@
+import { getAttribute, getFirst, getText } from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// Etsy's listing page annotates the buy box with data-buy-box-* attributes
+// and ships JSON-LD for the rest; the generic adapter covers the latter.
+export const etsyAdapter: SiteAdapter = {
+  id: "etsy",
+  hosts: ["etsy.com"],
+  extract: ({ document: doc }) => ({
+    title: getText(doc, "h1[data-buy-box-listing-title]"),
+    price: getFirst([
+      getText(
+        doc,
+        "[data-buy-box-region='price'] [data-selector='price-only'] p"
+      ),
+      getText(doc, "[data-buy-box-region='price'] p.wt-text-title-larger"),
+    ]),
+    listPrice: getText(
+      doc,
+      "[data-buy-box-region='price'] .wt-text-strikethrough"
+    ),
+    seller: getFirst([
+      getAttribute(doc, "[data-shop-name]", "data-shop-name"),
+      getText(doc, "[data-buy-box-region='shop-name'] a"),
+    ]),
+    description: getText(
+      doc,
+      "[data-product-details-description-text-content]"
+    ),
+    availability: getText(doc, "[data-buy-box-region='sold-out']")
+      ? "out_of_stock"
+      : null,
+  }),
+};
@@ -0,0 +1,42 @@
+import { offerMoney, primaryOffer } from "@/lib/structuredData";
+import { getFirst, getText } from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// Flipkart's class names are hashed and rotate between builds, while every
+// product page ships a JSON-LD Product block. That block is read first; the
+// classes (current ones, then older ones) only fill what it leaves out, which
+// is mostly the MRP.
+export const flipkartAdapter: SiteAdapter = {
+  id: "flipkart",
+  hosts: ["flipkart.com"],
+  extract: ({ document: doc, structured }) => {
+    const offer = structured ? primaryOffer(structured) : undefined;
+    return {
+      title: getFirst([
+        structured?.name,
+        getText(doc, "span.VU-ZEz"),
+        getText(doc, "span.B_NuCI"),
+      ]),
+      money: offerMoney(structured),
+      price: getFirst([
+        getText(doc, "div.Nx9bqj"),
+        getText(doc, "div._30jeq3"),
+        getText(doc, "div._1vC4OE"),
+      ]),
+      listPrice: getFirst([
+        getText(doc, "div.yRaY8j"),
+        getText(doc, "div._3I9_wc"),
+      ]),
+      seller: getFirst([offer?.seller, getText(doc, "#sellerName span span")]),
+      description: getFirst([
+        structured?.description,
+        getText(doc, "div._1AN87F"),
+        getText(doc, "div._1mXcCf"),
+        getText(doc, "div._2o-xpa"),
+      ]),
+      availability:
+        offer?.availability ??
+        (getText(doc, "div._16FRp0") ? "out_of_stock" : null),
+    };
+  },
+};
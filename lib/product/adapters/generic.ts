@@ -0,0 +1,66 @@
+import { parseAmount, parseMoney } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import { offerMoney, primaryOffer } from "@/lib/structuredData";
+import { querySelector, textContent } from "@/lib/html";
+import { getFirst, getMeta, getText } from "../helpers";
+import type { ProductPage, SiteAdapter } from "../types";
+
+const metaMoney = ({ document: doc }: ProductPage): Money | null => {
+  const amount = getFirst([
+    getMeta(doc, "product:price:amount"),
+    getMeta(doc, "og:price:amount"),
+  ]);
+  const value = amount ? parseAmount(amount) : null;
+  if (!amount || value === null) return null;
+  const currency = getFirst([
+    getMeta(doc, "product:price:currency"),
+    getMeta(doc, "og:price:currency"),
+  ]);
+  return {
+    amount: value,
+    currency: currency ? currency.toUpperCase() : null,
+    raw: amount,
+  };
+};
+
+const bodyMoney = ({ document: doc }: ProductPage) => {
+  const body = querySelector(doc, "body") ?? doc;
+  return parseMoney(textContent(body));
+};
+
+// Also the fallback for every field a store adapter leaves empty, so it reads
+// only store-agnostic sources: structured data, Open Graph and common classes.
+export const genericAdapter: SiteAdapter = {
+  id: "generic",
+  hosts: [],
+  extract: (page) => {
+    const { document: doc, structured } = page;
+    const offer = structured ? primaryOffer(structured) : undefined;
+    const price = getFirst([
+      getText(doc, "[data-price]"),
+      getText(doc, ".price"),
+      getText(doc, ".product-price"),
+    ]);
+    return {
+      title: getFirst([
+        structured?.name,
+        getMeta(doc, "og:title"),
+        getText(doc, "title"),
+      ]),
+      price,
+      money:
+        offerMoney(structured) ??
+        metaMoney(page) ??
+        (price ? parseMoney(price) : null) ??
+        bodyMoney(page),
+      description: getFirst([
+        structured?.description,
+        getText(doc, ".product-description"),
+        getText(doc, "#description"),
+        getMeta(doc, "og:description"),
+        getMeta(doc, "description"),
+      ]),
+      availability: offer?.availability ?? null,
+    };
+  },
+};
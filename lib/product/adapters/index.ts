@@ -0,0 +1,22 @@
+import { amazonAdapter } from "./amazon";
+import { bestBuyAdapter } from "./bestbuy";
+import { ebayAdapter } from "./ebay";
+import { etsyAdapter } from "./etsy";
+import { flipkartAdapter } from "./flipkart";
+import { meeshoAdapter } from "./meesho";
+import { myntraAdapter } from "./myntra";
+import { walmartAdapter } from "./walmart";
+import type { SiteAdapter } from "../types";
+
+export { genericAdapter } from "./generic";
+
+export const BUILTIN_ADAPTERS: SiteAdapter[] = [
+  amazonAdapter,
+  flipkartAdapter,
+  myntraAdapter,
+  meeshoAdapter,
+  ebayAdapter,
+  walmartAdapter,
+  bestBuyAdapter,
+  etsyAdapter,
+];
@@ -0,0 +1,48 @@
+import {
+  getFirst,
+  getJsonScript,
+  getPath,
+  getString,
+  getText,
+  toMoney,
+} from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// Meesho is a Next.js app; the product record sits in __NEXT_DATA__ and the
+// rendered markup only uses generated styled-component classes.
+export const meeshoAdapter: SiteAdapter = {
+  id: "meesho",
+  hosts: ["meesho.com"],
+  extract: ({ document: doc }) => {
+    const product = getPath(
+      getJsonScript(doc, "script#__NEXT_DATA__"),
+      "props",
+      "pageProps",
+      "initialState",
+      "product",
+      "details",
+      "data"
+    );
+    const inStock = getPath(product, "in_stock");
+    return {
+      title: getFirst([getString(product, "name"), getText(doc, "h1")]),
+      money: toMoney(getPath(product, "price"), "INR"),
+      listMoney: toMoney(
+        getPath(product, "mrp_details", "mrp") ??
+          getPath(product, "original_price"),
+        "INR"
+      ),
+      seller: getFirst([
+        getString(product, "supplier_name"),
+        getString(product, "suppliers", 0, "name"),
+      ]),
+      description: getString(product, "description"),
+      availability:
+        typeof inStock === "boolean"
+          ? inStock
+            ? "in_stock"
+            : "out_of_stock"
+          : null,
+    };
+  },
+};
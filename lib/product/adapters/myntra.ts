@@ -0,0 +1,47 @@
+import {
+  availabilityFromText,
+  getFirst,
+  getPath,
+  getScriptAssignment,
+  getString,
+  getText,
+  stripTags,
+  toMoney,
+} from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// Myntra's class names are hashed per build, but every product page boots
+// from `window.__myx`, which carries the full pdpData record.
+export const myntraAdapter: SiteAdapter = {
+  id: "myntra",
+  hosts: ["myntra.com"],
+  extract: ({ document: doc }) => {
+    const data = getPath(getScriptAssignment(doc, "window.__myx"), "pdpData");
+    const details = getPath(data, "productDetails");
+    const description = Array.isArray(details)
+      ? stripTags(
+          details.map((entry) => getString(entry, "description")).join(" ")
+        )
+      : null;
+    const outOfStock = getPath(data, "flags", "outOfStock");
+    return {
+      title: getFirst([getString(data, "name"), getText(doc, "h1.pdp-name")]),
+      money: toMoney(getPath(data, "price", "discounted"), "INR"),
+      listMoney: toMoney(
+        getPath(data, "price", "mrp") ?? getPath(data, "mrp"),
+        "INR"
+      ),
+      seller: getFirst([
+        getString(data, "sellers", 0, "sellerName"),
+        getString(data, "sizes", 0, "sizeSellerData", 0, "sellerName"),
+      ]),
+      description,
+      availability:
+        typeof outOfStock === "boolean"
+          ? outOfStock
+            ? "out_of_stock"
+            : "in_stock"
+          : availabilityFromText(getText(doc, ".pdp-add-to-bag")),
+    };
+  },
+};
@@ -0,0 +1,53 @@
+import { parseAvailability } from "@/lib/structuredData";
+import {
+  getFirst,
+  getJsonScript,
+  getPath,
+  getString,
+  getText,
+  stripTags,
+  toMoney,
+} from "../helpers";
+import type { SiteAdapter } from "../types";
+
+// Walmart renders with Next.js; __NEXT_DATA__ holds the same product record
+// the buy box is built from, including the "was" price and the marketplace
+// seller.
+export const walmartAdapter: SiteAdapter = {
+  id: "walmart",
+  hosts: ["walmart.com"],
+  extract: ({ document: doc }) => {
+    const product = getPath(
+      getJsonScript(doc, "script#__NEXT_DATA__"),
+      "props",
+      "pageProps",
+      "initialData",
+      "data",
+      "product"
+    );
+    const priceInfo = getPath(product, "priceInfo");
+    const currency =
+      getString(priceInfo, "currentPrice", "currencyUnit") ?? "USD";
+    return {
+      title: getFirst([
+        getString(product, "name"),
+        getText(doc, "h1[itemprop='name']"),
+      ]),
+      money: toMoney(getPath(priceInfo, "currentPrice", "price"), currency),
+      price: getText(doc, "[itemprop='price']"),
+      listMoney: toMoney(
+        getPath(priceInfo, "wasPrice", "price") ??
+          getPath(priceInfo, "listPrice", "price"),
+        currency
+      ),
+      seller:
+        getString(product, "sellerDisplayName") ??
+        getString(product, "sellerName"),
+      description: stripTags(getString(product, "shortDescription")),
+      availability:
+        parseAvailability(
+          getString(product, "availabilityStatus") ?? undefined
+        ) ?? null,
+    };
+  },
+};
@@ -0,0 +1,65 @@
+import { MAX_HTML_LENGTH, parseHtml } from "@/lib/html";
+import { parseMicrodata } from "@/lib/microdata";
+import { formatMoney, parseMoney } from "@/lib/money";
+import { mergeStructured, parseJsonLd } from "@/lib/structuredData";
+import { genericAdapter } from "./adapters";
+import { findAdapter } from "./registry";
+import type { ProductFields, ProductInfo, ProductPage } from "./types";
+
+const parseUrl = (url: string | null | undefined) => {
+  if (!url) return null;
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+const pick = <K extends keyof ProductFields>(
+  key: K,
+  primary: ProductFields,
+  fallback: ProductFields
+) => primary[key] || fallback[key] || null;
+
+// Runs unchanged in route handlers and in the browser: no DOMParser, no Node
+// APIs, just the HTML string and the page URL.
+export function extractProductInfo(
+  input: string,
+  url?: string | null
+): ProductInfo {
+  const html = input.slice(0, MAX_HTML_LENGTH);
+  const document = parseHtml(html);
+  const page: ProductPage = {
+    url: parseUrl(url),
+    html,
+    document,
+    structured: mergeStructured(parseJsonLd(html), parseMicrodata(document)),
+  };
+
+  const adapter = findAdapter(page.url);
+  const site = adapter?.extract(page) ?? {};
+  const generic = genericAdapter.extract(page);
+
+  const sitePrice = site.money ?? (site.price ? parseMoney(site.price) : null);
+  const money = sitePrice ?? pick("money", site, generic);
+  const price = money ? formatMoney(money) : pick("price", site, generic);
+  const siteList =
+    site.listMoney ?? (site.listPrice ? parseMoney(site.listPrice) : null);
+  const listMoney = siteList ?? pick("listMoney", site, generic);
+  const listPrice = listMoney
+    ? formatMoney(listMoney)
+    : pick("listPrice", site, generic);
+
+  return {
+    title: pick("title", site, generic),
+    price,
+    money,
+    listPrice,
+    listMoney,
+    seller: pick("seller", site, generic),
+    description: pick("description", site, generic),
+    availability: pick("availability", site, generic),
+    structured: page.structured,
+    adapter: adapter?.id ?? genericAdapter.id,
+  };
+}
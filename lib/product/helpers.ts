@@ -0,0 +1,140 @@
+import {
+  querySelector,
+  querySelectorAll,
+  rawText,
+  textContent,
+} from "@/lib/html";
+import type { HtmlElement } from "@/lib/html";
+import { parseDataAmount } from "@/lib/money";
+import type { Money } from "@/lib/money";
+import type { StockAvailability } from "@/lib/structuredData";
+
+const normalize = (value: string) => value.replace(/\s+/g, " ").trim();
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const getText = (root: HtmlElement, selector: string) => {
+  const el = querySelector(root, selector);
+  const text = el ? normalize(textContent(el)) : "";
+  return text || null;
+};
+
+export const getAttribute = (
+  root: HtmlElement,
+  selector: string,
+  name: string
+) => {
+  const value = querySelector(root, selector)?.attributes[name];
+  return value ? normalize(value) : null;
+};
+
+export const getMeta = (root: HtmlElement, name: string) =>
+  getAttribute(root, `meta[name="${name}"]`, "content") ??
+  getAttribute(root, `meta[property="${name}"]`, "content");
+
+export const getFirst = (values: Array<string | null | undefined>) =>
+  values.find((value) => Boolean(value)) ?? null;
+
+export const getTexts = (root: HtmlElement, selector: string) =>
+  querySelectorAll(root, selector)
+    .map((el) => normalize(textContent(el)))
+    .filter(Boolean);
+
+// Reads the first balanced {...} starting at `start`, skipping braces inside
+// strings, so JSON assigned in inline scripts can be parsed without the
+// trailing JavaScript.
+const readObjectLiteral = (text: string, start: number) => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let index = start; index < text.length; index += 1) {
+    const char = text[index];
+    if (quote) {
+      if (char === "\\") index += 1;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "{") {
+      depth += 1;
+    } else if (char === "}") {
+      depth -= 1;
+      if (depth === 0) return text.slice(start, index + 1);
+    }
+  }
+  return null;
+};
+
+const parseJson = (text: string | null): unknown => {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+};
+
+export const getJsonScript = (root: HtmlElement, selector: string) => {
+  const el = querySelector(root, selector);
+  return el ? parseJson(rawText(el).trim()) : null;
+};
+
+// For stores that bootstrap state with `window.__STATE__ = {...};`.
+export const getScriptAssignment = (root: HtmlElement, name: string) => {
+  const assignment = new RegExp(`${escapeRegex(name)}\\s*=\\s*`);
+  for (const script of querySelectorAll(root, "script")) {
+    const text = rawText(script);
+    const match = assignment.exec(text);
+    if (!match) continue;
+    const start = text.indexOf("{", match.index + match[0].length);
+    if (start !== -1) return parseJson(readObjectLiteral(text, start));
+  }
+  return null;
+};
+
+export const getPath = (value: unknown, ...path: Array<string | number>) =>
+  path.reduce<unknown>(
+    (current, key) =>
+      current !== null && typeof current === "object"
+        ? (current as Record<string, unknown>)[key]
+        : undefined,
+    value
+  );
+
+export const getString = (value: unknown, ...path: Array<string | number>) => {
+  const found = getPath(value, ...path);
+  if (typeof found === "number") return String(found);
+  return typeof found === "string" && found.trim() ? normalize(found) : null;
+};
+
+export const toMoney = (amount: unknown, currency: string): Money | null => {
+  const value =
+    typeof amount === "number"
+      ? amount
+      : typeof amount === "string"
+        ? parseDataAmount(amount)
+        : null;
+  if (value === null || !Number.isFinite(value) || value <= 0) return null;
+  return { amount: value, currency, raw: String(amount) };
+};
+
+export const availabilityFromText = (
+  text: string | null
+): StockAvailability | null => {
+  if (!text) return null;
+  const value = text.toLowerCase();
+  if (/out of stock|sold out|unavailable|no longer available/.test(value)) {
+    return "out_of_stock";
+  }
+  if (/pre-?order/.test(value)) return "preorder";
+  if (/back-?order/.test(value)) return "backorder";
+  if (/in stock|available|only \d+ left|add to (?:cart|bag)/.test(value)) {
+    return "in_stock";
+  }
+  return null;
+};
+
+// Some stores embed descriptions as HTML strings inside their JSON state.
+export const stripTags = (value: string | null) => {
+  const text = value ? normalize(value.replace(/<[^<>]*>/g, " ")) : "";
+  return text || null;
+};
@@ -0,0 +1,37 @@
+import { BUILTIN_ADAPTERS } from "./adapters";
+import type { SiteAdapter } from "./types";
+
+const adapters: SiteAdapter[] = [...BUILTIN_ADAPTERS];
+
+// Country storefronts end in a ccTLD, a gTLD or a "co.uk" style pair.
+const PUBLIC_SUFFIX = "(?:[a-z]{2,6}|(?:co|com|org|net)\\.[a-z]{2})";
+
+const escapeRegex = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export function matchesHost(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, "");
+  const domain = pattern.toLowerCase();
+  const body = domain.endsWith(".*")
+    ? `${escapeRegex(domain.slice(0, -2))}\\.${PUBLIC_SUFFIX}`
+    : escapeRegex(domain);
+  return new RegExp(`(?:^|\\.)${body}$`).test(host);
+}
+
+export function registerAdapter(adapter: SiteAdapter) {
+  const index = adapters.findIndex((entry) => entry.id === adapter.id);
+  if (index === -1) {
+    adapters.unshift(adapter);
+  } else {
+    adapters[index] = adapter;
+  }
+}
+
+export function findAdapter(url: URL | null): SiteAdapter | null {
+  if (!url) return null;
+  return (
+    adapters.find((adapter) =>
+      adapter.hosts.some((pattern) => matchesHost(url.hostname, pattern))
+    ) ?? null
+  );
+}
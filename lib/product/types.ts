@@ -0,0 +1,48 @@
+import type { HtmlElement } from "@/lib/html";
+import type { Money } from "@/lib/money";
+import type {
+  StockAvailability,
+  StructuredProduct,
+} from "@/lib/structuredData";
+
+export type ProductPage = {
+  url: URL | null;
+  html: string;
+  document: HtmlElement;
+  structured: StructuredProduct | null;
+};
+
+// What an adapter can contribute. Anything left out falls back to the
+// generic adapter, so a store adapter only needs the fields it reads better.
+export type ProductFields = {
+  title?: string | null;
+  price?: string | null;
+  money?: Money | null;
+  // The struck-through "MRP" or "list price" shown next to the sale price.
+  listPrice?: string | null;
+  listMoney?: Money | null;
+  seller?: string | null;
+  description?: string | null;
+  availability?: StockAvailability | null;
+};
+
+export type SiteAdapter = {
+  id: string;
+  // Hostnames the adapter handles, matched on the registrable domain and any
+  // subdomain of it. "amazon.*" matches every country storefront.
+  hosts: string[];
+  extract: (page: ProductPage) => ProductFields;
+};
+
+export type ProductInfo = {
+  title: string | null;
+  price: string | null;
+  money: Money | null;
+  listPrice: string | null;
+  listMoney: Money | null;
+  seller: string | null;
+  description: string | null;
+  availability: StockAvailability | null;
+  structured: StructuredProduct | null;
+  adapter: string;
+};
@@ -0,0 +1,123 @@
+import { formatMoney } from "./money";
+import type { Money } from "./money";
+
+// A dotted path into the facts a rule set is evaluated against, such as
+// "claims.returnsDays" or "policy.freeShippingThreshold.amount".
+export type FactPath = string;
+
+type Primitive = string | number | boolean;
+
+type Comparison = "eq" | "ne" | "gt" | "gte" | "lt" | "lte";
+
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | { fact: FactPath; op: "defined" | "missing" | "nonEmpty" }
+  | { fact: FactPath; op: Comparison; value: Primitive }
+  | { fact: FactPath; op: Comparison; ref: FactPath }
+  | { fact: FactPath; op: "in"; values: Primitive[] };
+
+export type EngineRule = {
+  id: string;
+  when: Condition;
+  // Text with {fact.path} placeholders, filled from the facts when it fires.
+  explanation: string;
+};
+
+export type FiredRule<R extends EngineRule> = {
+  rule: R;
+  reason: string;
+};
+
+type Facts = Record<string, unknown>;
+
+export function readFact(facts: Facts, path: FactPath): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value !== null && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      facts
+    );
+}
+
+// Comparisons are false when either side is missing, so "claims say 30 days,
+// policy says nothing" never reads as a mismatch.
+function compare(op: Comparison, left: unknown, right: unknown): boolean {
+  if (left === undefined || left === null) return false;
+  if (right === undefined || right === null) return false;
+  switch (op) {
+    case "eq":
+      return left === right;
+    case "ne":
+      return left !== right;
+  }
+  if (typeof left !== "number" || typeof right !== "number") return false;
+  switch (op) {
+    case "gt":
+      return left > right;
+    case "gte":
+      return left >= right;
+    case "lt":
+      return left < right;
+    case "lte":
+      return left <= right;
+  }
+}
+
+export function evaluateCondition(condition: Condition, facts: Facts): boolean {
+  if ("all" in condition) {
+    return condition.all.every((entry) => evaluateCondition(entry, facts));
+  }
+  if ("any" in condition) {
+    return condition.any.some((entry) => evaluateCondition(entry, facts));
+  }
+  if ("not" in condition) return !evaluateCondition(condition.not, facts);
+
+  const value = readFact(facts, condition.fact);
+  switch (condition.op) {
+    case "defined":
+      return value !== undefined && value !== null;
+    case "missing":
+      return value === undefined || value === null;
+    case "nonEmpty":
+      return Array.isArray(value) && value.length > 0;
+    case "in":
+      return condition.values.includes(value as Primitive);
+  }
+  const other =
+    "ref" in condition ? readFact(facts, condition.ref) : condition.value;
+  return compare(condition.op, value, other);
+}
+
+const isMoney = (value: unknown): value is Money =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as Money).amount === "number" &&
+  "raw" in value;
+
+function formatFact(value: unknown): string {
+  if (value === undefined || value === null) return "not stated";
+  if (Array.isArray(value)) return value.map(formatFact).join(", ");
+  if (isMoney(value)) return formatMoney(value);
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export function renderTemplate(template: string, facts: Facts): string {
+  return template.replace(/\{([\w.]+)\}/g, (_, path: string) =>
+    formatFact(readFact(facts, path))
+  );
+}
+
+export function fireRules<R extends EngineRule>(
+  rules: R[],
+  facts: Facts
+): Array<FiredRule<R>> {
+  return rules
+    .filter((rule) => evaluateCondition(rule.when, facts))
+    .map((rule) => ({ rule, reason: renderTemplate(rule.explanation, facts) }));
+}
@@ -1,127 +1,918 @@
-import type { ExtractedClaims, ExtractedPolicy } from "./extract";
+import { buildProfileFacts } from "./buyerProfile";
+import type { BuyerProfile, ProfileFacts } from "./buyerProfile";
+import type {
+  Evidence,
+  ExtraFee,
+  ExtractedClaims,
+  ExtractedField,
+  ExtractedPolicy,
+  ReturnRule,
+  ReturnScope,
+  WarrantyDetails,
+} from "./extract";
+import { fireRules, readFact } from "./ruleEngine";
+import type { Condition, EngineRule, FactPath } from "./ruleEngine";
+import type { Money } from "./money";
+import { computeTrustScore } from "./trustScore";
+import type { TrustScore } from "./trustScore";
 
 export type RuleFlag =
   | "returns_conflict"
   | "warranty_conflict"
+  | "warranty_scope_conflict"
   | "stock_conflict"
   | "price_conflict"
-  | "unclear"
+  | "returns_conditional"
+  | "warranty_conditional"
+  | "return_shipping_conflict"
+  | "shipping_conflict"
+  | "refund_method_conflict"
+  | "refund_timeline_conflict"
+  | "restocking_fee"
+  | "extra_fees"
+  | "returns_unverified"
+  | "warranty_unverified"
+  | "stock_unverified"
+  | "price_unverified"
+  | "no_signal"
+  | "returns_below_requirement"
+  | "warranty_below_requirement"
+  | "condition_not_accepted"
+  | "region_mismatch"
+  | "discount_mismatch"
+  | "discount_impossible"
+  | "discount_unreferenced"
+  | "false_scarcity"
+  | "countdown_pressure"
+  | "activity_pressure"
+  | "preselected_addon"
   | "invalid_url"
-  | "analysis_failed"
-  | "dev_only";
+  | "analysis_failed";
+
+export type WarrantyMismatch = {
+  kind: "labour" | "parts_only" | "provider";
+  claimedMonths?: number;
+  coveredMonths?: number;
+  claimedProvider?: WarrantyDetails["provider"];
+  policyProvider?: WarrantyDetails["provider"];
+  policyLevel?: WarrantyDetails["level"];
+};
+
+// How much a fired rule weighs on the verdict: any "risk" rule makes the
+// page risky, "unclear" beats "caution", and no rules at all is "good".
+// "info" rules only lower the trust score.
+export type RuleSeverity = "risk" | "caution" | "unclear" | "info";
+
+export type RuleDefinition = EngineRule & {
+  flag: RuleFlag;
+  severity: RuleSeverity;
+  // Trust score points this rule removes; defaults to its severity's points.
+  points?: number;
+  // Which fields the evidence shown to the user comes from. `policyFact`
+  // overrides the policy evidence, e.g. with a category-specific return rule.
+  evidence?: {
+    claim: ExtractedField;
+    policy: ExtractedField;
+    policyFact?: FactPath;
+    mismatchFact?: FactPath;
+  };
+};
+
+// Positive checks for the trust score: each one that holds adds its points.
+export type AssuranceDefinition = EngineRule & {
+  points: number;
+};
+
+export type RuleSet = {
+  version: string;
+  rules: RuleDefinition[];
+  scoring: {
+    base: number;
+    severityPoints: Record<RuleSeverity, number>;
+    assurances: AssuranceDefinition[];
+  };
+};
+
+export type RuleMatch = {
+  ruleId: string;
+  flag: RuleFlag;
+  severity: RuleSeverity;
+  points: number;
+  reason: string;
+};
+
+export type RuleConflict = {
+  flag: RuleFlag;
+  ruleId: string;
+  reason: string;
+  claimField: ExtractedField;
+  policyField: ExtractedField;
+  claim?: Evidence;
+  policy?: Evidence;
+  mismatch?: WarrantyMismatch;
+};
 
 export type RuleResult = {
   flags: RuleFlag[];
+  conflicts: RuleConflict[];
+  matches: RuleMatch[];
   verdict: "good" | "caution" | "risk" | "unclear";
+  trust: TrustScore;
+  rulesVersion: string;
 };
 
-export function detectContradictions(
-  claims: ExtractedClaims,
-  policy: ExtractedPolicy
-): RuleResult {
-  const flags: RuleFlag[] = [];
+type RuleFacts = {
+  claims: ExtractedClaims;
+  policy: ExtractedPolicy;
+  // Return terms after any category, condition or sale rule is applied.
+  returns: {
+    days?: number;
+    allowed?: boolean;
+    evidence?: Evidence;
+  };
+  // What the buyer gets where page and policy agree or only one speaks:
+  // policy terms when stated, otherwise the page's claims.
+  terms: {
+    returnsDays?: number;
+    returnsAllowed?: boolean;
+    warrantyMonths?: number;
+    warrantyProvided?: boolean;
+  };
+  // The page's list and sale prices with the discount they imply.
+  pricing: {
+    list?: Money;
+    sale?: Money;
+    actualDiscount?: number;
+    discountGap?: number;
+  };
+  warrantyMismatch?: WarrantyMismatch;
+  undisclosedFees: ExtraFee[];
+  profile: ProfileFacts;
+};
 
-  if (
-    claims.returnsDays !== undefined &&
-    policy.returnsDays !== undefined &&
-    claims.returnsDays > policy.returnsDays
-  ) {
-    flags.push("returns_conflict");
-  }
+const SLOW_REFUND_DAYS = 30;
+// Percentage points a stated discount may differ from the prices' own, to
+// allow for rounding ("33% off" for a third off) and taxes.
+const DISCOUNT_TOLERANCE = 2;
 
-  if (
-    claims.returnsAllowed === true &&
-    policy.returnsAllowed === false
-  ) {
-    flags.push("returns_conflict");
-  }
+const RETURNS_CLAIMED: Condition = {
+  any: [
+    { fact: "claims.returnsDays", op: "defined" },
+    { fact: "claims.returnsAllowed", op: "defined" },
+  ],
+};
+const RETURNS_COVERED: Condition = {
+  any: [
+    { fact: "returns.days", op: "defined" },
+    { fact: "returns.allowed", op: "defined" },
+  ],
+};
+const WARRANTY_CLAIMED: Condition = {
+  any: [
+    { fact: "claims.warrantyMonths", op: "defined" },
+    { fact: "claims.warrantyProvided", op: "defined" },
+  ],
+};
+const WARRANTY_COVERED: Condition = {
+  any: [
+    { fact: "policy.warrantyMonths", op: "defined" },
+    { fact: "policy.warrantyProvided", op: "defined" },
+  ],
+};
+const STOCK_CLAIMED: Condition = { fact: "claims.stockStatus", op: "defined" };
+// stockWarning defaults to false, so only an actual availability clause counts
+// as the policy saying something about stock.
+const STOCK_COVERED: Condition = {
+  fact: "policy.stockWarning",
+  op: "eq",
+  value: true,
+};
+const PRICE_CLAIMED: Condition = {
+  any: [
+    { fact: "claims.priceGuarantee", op: "defined" },
+    { fact: "claims.priceValue", op: "defined" },
+  ],
+};
+const PRICE_COVERED: Condition = { fact: "policy.pricePolicy", op: "defined" };
+// Refund and fee terms aren't a coverage dimension of their own, but a page
+// that states them has said something checkable.
+const OTHER_TERMS_STATED: Condition = {
+  any: [
+    { fact: "claims.refundPromise", op: "defined" },
+    { fact: "policy.refundMethod", op: "defined" },
+    { fact: "policy.refundDays", op: "defined" },
+    { fact: "policy.restockingFee", op: "defined" },
+    { fact: "policy.extraFees", op: "nonEmpty" },
+    { fact: "policy.freeShippingThreshold", op: "defined" },
+  ],
+};
 
-  if (
-    claims.returnsAllowed === false &&
-    policy.returnsAllowed === true
-  ) {
-    flags.push("returns_conflict");
+const uncovered = (claimed: Condition, covered: Condition): Condition => ({
+  all: [claimed, { not: covered }],
+});
+
+const verified = (claimed: Condition, covered: Condition): Condition => ({
+  all: [claimed, covered],
+});
+
+// Bump the version whenever a rule is added, removed or retuned, so stored
+// results and the evaluation baseline say which rules produced them.
+export const DEFAULT_RULE_SET: RuleSet = {
+  version: "2.3.2",
+  rules: [
+    {
+      id: "returns.window_longer_than_policy",
+      flag: "returns_conflict",
+      severity: "risk",
+      when: { fact: "claims.returnsDays", op: "gt", ref: "returns.days" },
+      explanation:
+        "The product page offers {claims.returnsDays}-day returns; the policy allows {returns.days} days.",
+      evidence: {
+        claim: "returnsDays",
+        policy: "returnsDays",
+        policyFact: "returns.evidence",
+      },
+    },
+    {
+      id: "returns.eligibility_mismatch",
+      flag: "returns_conflict",
+      severity: "risk",
+      when: { fact: "claims.returnsAllowed", op: "ne", ref: "returns.allowed" },
+      explanation:
+        "The product page says returns allowed: {claims.returnsAllowed}; the policy says {returns.allowed}.",
+      evidence: {
+        claim: "returnsAllowed",
+        policy: "returnsAllowed",
+        policyFact: "returns.evidence",
+      },
+    },
+    {
+      id: "returns.conditions_omitted",
+      flag: "returns_conditional",
+      severity: "caution",
+      when: {
+        all: [
+          { fact: "claims.returnsTerms", op: "eq", value: "allowed" },
+          { fact: "policy.returnsTerms", op: "eq", value: "conditional" },
+        ],
+      },
+      explanation:
+        "The product page states returns without conditions; the policy adds exceptions.",
+      evidence: { claim: "returnsTerms", policy: "returnsTerms" },
+    },
+    {
+      id: "warranty.length_longer_than_policy",
+      flag: "warranty_conflict",
+      severity: "risk",
+      when: {
+        fact: "claims.warrantyMonths",
+        op: "gt",
+        ref: "policy.warrantyMonths",
+      },
+      explanation:
+        "The product page claims a {claims.warrantyMonths}-month warranty; the policy covers {policy.warrantyMonths} months.",
+      evidence: { claim: "warrantyMonths", policy: "warrantyMonths" },
+    },
+    {
+      id: "warranty.denied_by_policy",
+      flag: "warranty_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.warrantyProvided", op: "eq", value: true },
+          { fact: "policy.warrantyProvided", op: "eq", value: false },
+        ],
+      },
+      explanation:
+        "The product page mentions a warranty; the policy says none is provided.",
+      evidence: { claim: "warrantyProvided", policy: "warrantyProvided" },
+    },
+    {
+      id: "warranty.coverage_narrower",
+      flag: "warranty_scope_conflict",
+      severity: "risk",
+      when: { fact: "warrantyMismatch", op: "defined" },
+      explanation:
+        "The policy's warranty is narrower than claimed ({warrantyMismatch.kind}).",
+      evidence: {
+        claim: "warrantyMonths",
+        policy: "warranty",
+        mismatchFact: "warrantyMismatch",
+      },
+    },
+    {
+      id: "warranty.conditions_omitted",
+      flag: "warranty_conditional",
+      severity: "caution",
+      when: {
+        all: [
+          { fact: "claims.warrantyTerms", op: "eq", value: "allowed" },
+          { fact: "policy.warrantyTerms", op: "eq", value: "conditional" },
+        ],
+      },
+      explanation:
+        "The product page states a warranty without conditions; the policy adds some.",
+      evidence: { claim: "warrantyTerms", policy: "warrantyTerms" },
+    },
+    {
+      id: "stock.in_stock_but_not_guaranteed",
+      flag: "stock_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.stockStatus", op: "eq", value: "in_stock" },
+          { fact: "policy.stockWarning", op: "eq", value: true },
+        ],
+      },
+      explanation:
+        "The product page says in stock; the policy says availability isn't guaranteed.",
+      evidence: { claim: "stockStatus", policy: "stockWarning" },
+    },
+    {
+      id: "price.guarantee_but_prices_change",
+      flag: "price_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.priceGuarantee", op: "eq", value: true },
+          { fact: "policy.pricePolicy", op: "eq", value: "price_change" },
+        ],
+      },
+      explanation:
+        "The product page guarantees the price; the policy reserves the right to change it.",
+      evidence: { claim: "priceGuarantee", policy: "pricePolicy" },
+    },
+    {
+      id: "pricing.discount_does_not_match_prices",
+      flag: "discount_mismatch",
+      severity: "caution",
+      when: {
+        fact: "pricing.discountGap",
+        op: "gt",
+        value: DISCOUNT_TOLERANCE,
+      },
+      explanation:
+        "The page says {claims.discountPercent}% off, but {pricing.sale} against a list price of {pricing.list} is {pricing.actualDiscount}% off.",
+    },
+    {
+      id: "pricing.discount_out_of_range",
+      flag: "discount_impossible",
+      severity: "risk",
+      when: {
+        any: [
+          { fact: "claims.discountPercent", op: "gte", value: 100 },
+          { fact: "claims.discountPercent", op: "lte", value: 0 },
+        ],
+      },
+      explanation:
+        "The page claims a discount of {claims.discountPercent}%, which no real price can have.",
+    },
+    {
+      id: "pricing.sale_not_below_list",
+      flag: "discount_impossible",
+      severity: "risk",
+      // A price equal to the M.R.P. is only a problem when the page also
+      // claims a discount on it.
+      when: {
+        any: [
+          { fact: "claims.salePrice", op: "gt", ref: "claims.listPrice" },
+          {
+            all: [
+              { fact: "claims.salePrice", op: "eq", ref: "claims.listPrice" },
+              { fact: "claims.discountPercent", op: "defined" },
+            ],
+          },
+        ],
+      },
+      explanation:
+        "The sale price {pricing.sale} is not below the list price {pricing.list} it is compared with.",
+    },
+    {
+      id: "pricing.discount_without_reference",
+      flag: "discount_unreferenced",
+      severity: "caution",
+      when: {
+        all: [
+          { fact: "claims.discountPercent", op: "defined" },
+          { fact: "claims.listPrice", op: "missing" },
+        ],
+      },
+      explanation:
+        "The page claims {claims.discountPercent}% off without saying what price it is off.",
+    },
+    // Pressure tactics. Stock counts and shopper activity can be true, so they
+    // only cost trust points; timers and pre-ticked extras make it a caution.
+    {
+      id: "pressure.scarcity",
+      flag: "false_scarcity",
+      severity: "info",
+      when: { fact: "claims.darkPatterns.scarcity", op: "defined" },
+      explanation:
+        'The page pushes scarcity: "{claims.darkPatterns.scarcity.snippet}".',
+    },
+    {
+      id: "pressure.countdown",
+      flag: "countdown_pressure",
+      severity: "caution",
+      when: { fact: "claims.darkPatterns.countdown", op: "defined" },
+      explanation:
+        'The page puts a deadline on the deal: "{claims.darkPatterns.countdown.snippet}".',
+    },
+    {
+      id: "pressure.activity",
+      flag: "activity_pressure",
+      severity: "info",
+      when: { fact: "claims.darkPatterns.activity", op: "defined" },
+      explanation:
+        'The page cites other shoppers\' activity: "{claims.darkPatterns.activity.snippet}".',
+    },
+    {
+      id: "pressure.preselected_addon",
+      flag: "preselected_addon",
+      severity: "caution",
+      when: { fact: "claims.darkPatterns.preselected_addon", op: "defined" },
+      explanation:
+        'An add-on is selected by default: "{claims.darkPatterns.preselected_addon.snippet}".',
+    },
+    {
+      id: "returns.free_but_buyer_pays_shipping",
+      flag: "return_shipping_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.returnShippingPaidBy", op: "eq", value: "seller" },
+          { fact: "policy.returnShippingPaidBy", op: "eq", value: "buyer" },
+        ],
+      },
+      explanation:
+        "The product page offers free returns; the policy has the buyer pay return shipping.",
+      evidence: {
+        claim: "returnShippingPaidBy",
+        policy: "returnShippingPaidBy",
+      },
+    },
+    {
+      id: "shipping.free_below_threshold",
+      flag: "shipping_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.freeShipping", op: "eq", value: true },
+          {
+            fact: "claims.priceValue",
+            op: "lt",
+            ref: "policy.freeShippingThreshold.amount",
+          },
+        ],
+      },
+      explanation:
+        "Free shipping starts at {policy.freeShippingThreshold}; the item costs {claims.priceValue}.",
+      evidence: { claim: "freeShipping", policy: "freeShippingThreshold" },
+    },
+    {
+      id: "refunds.promise_but_credit_only",
+      flag: "refund_method_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.refundPromise", op: "defined" },
+          {
+            fact: "policy.refundMethod",
+            op: "in",
+            values: ["store_credit", "exchange_only"],
+          },
+        ],
+      },
+      explanation:
+        "The product page promises a refund; the policy refunds by {policy.refundMethod}.",
+      evidence: { claim: "refundPromise", policy: "refundMethod" },
+    },
+    {
+      id: "refunds.slower_than_claimed",
+      flag: "refund_timeline_conflict",
+      severity: "risk",
+      when: { fact: "policy.refundDays", op: "gt", ref: "claims.refundDays" },
+      explanation:
+        "The product page promises refunds in {claims.refundDays} days; the policy takes up to {policy.refundDays}.",
+      evidence: { claim: "refundDays", policy: "refundDays" },
+    },
+    {
+      id: "refunds.promise_but_slow",
+      flag: "refund_timeline_conflict",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "claims.refundDays", op: "missing" },
+          { fact: "claims.refundPromise", op: "defined" },
+          { fact: "policy.refundDays", op: "gt", value: SLOW_REFUND_DAYS },
+        ],
+      },
+      explanation: `The product page promises a refund; the policy takes up to {policy.refundDays} days, over ${SLOW_REFUND_DAYS}.`,
+      evidence: { claim: "refundPromise", policy: "refundDays" },
+    },
+    {
+      id: "fees.restocking_undisclosed",
+      flag: "restocking_fee",
+      severity: "caution",
+      when: {
+        all: [
+          { fact: "policy.restockingFee", op: "defined" },
+          { fact: "claims.restockingFee", op: "missing" },
+        ],
+      },
+      explanation:
+        "The policy charges a restocking fee that the product page doesn't mention.",
+      evidence: { claim: "returnsTerms", policy: "restockingFee" },
+    },
+    {
+      id: "fees.extra_undisclosed",
+      flag: "extra_fees",
+      severity: "caution",
+      when: { fact: "undisclosedFees", op: "nonEmpty" },
+      explanation:
+        "The policy adds fees the product page doesn't mention: {undisclosedFees}.",
+      evidence: { claim: "extraFees", policy: "extraFees" },
+    },
+    // Buyer profile requirements. Comparisons against an unset profile field
+    // are false, so these stay quiet without a profile.
+    {
+      id: "profile.returns_window_too_short",
+      flag: "returns_below_requirement",
+      severity: "risk",
+      when: {
+        fact: "terms.returnsDays",
+        op: "lt",
+        ref: "profile.minReturnDays",
+      },
+      explanation:
+        "Returns are accepted for {terms.returnsDays} days; the buyer profile requires {profile.minReturnDays}.",
+    },
+    {
+      id: "profile.returns_not_accepted",
+      flag: "returns_below_requirement",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "terms.returnsAllowed", op: "eq", value: false },
+          { fact: "profile.minReturnDays", op: "gt", value: 0 },
+        ],
+      },
+      explanation:
+        "Returns aren't accepted; the buyer profile requires {profile.minReturnDays} days.",
+    },
+    {
+      id: "profile.warranty_too_short",
+      flag: "warranty_below_requirement",
+      severity: "risk",
+      when: {
+        fact: "terms.warrantyMonths",
+        op: "lt",
+        ref: "profile.minWarrantyMonths",
+      },
+      explanation:
+        "The warranty lasts {terms.warrantyMonths} months; the buyer profile requires {profile.minWarrantyMonths}.",
+    },
+    {
+      id: "profile.warranty_not_provided",
+      flag: "warranty_below_requirement",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "terms.warrantyProvided", op: "eq", value: false },
+          { fact: "profile.minWarrantyMonths", op: "gt", value: 0 },
+        ],
+      },
+      explanation:
+        "No warranty is provided; the buyer profile requires {profile.minWarrantyMonths} months.",
+    },
+    {
+      id: "profile.condition_not_accepted",
+      flag: "condition_not_accepted",
+      severity: "risk",
+      when: {
+        all: [
+          { fact: "profile.openBoxOk", op: "eq", value: false },
+          {
+            fact: "claims.productScope.condition",
+            op: "in",
+            values: ["opened", "refurbished", "used"],
+          },
+        ],
+      },
+      explanation:
+        "The item is sold {claims.productScope.condition}; the buyer profile only accepts new items.",
+    },
+    {
+      id: "profile.price_in_other_currency",
+      flag: "region_mismatch",
+      severity: "caution",
+      when: {
+        all: [
+          { fact: "claims.priceCurrency", op: "ne", ref: "profile.currency" },
+          // A bare "$" is read as USD, which says nothing about a Canadian
+          // or Australian store.
+          { fact: "claims.priceCurrencyAmbiguous", op: "missing" },
+        ],
+      },
+      explanation:
+        "The price is in {claims.priceCurrency}, but the buyer is in {profile.region} ({profile.currency}).",
+    },
+    // Returns and warranty are what buyers rely on after the sale, so leaving
+    // them unverified makes the verdict unclear. Few stores publish stock or
+    // pricing policies, so those gaps only lower the trust score.
+    {
+      id: "coverage.returns_unverified",
+      flag: "returns_unverified",
+      severity: "unclear",
+      when: uncovered(RETURNS_CLAIMED, RETURNS_COVERED),
+      explanation:
+        "The product page states return terms that no policy text covers.",
+    },
+    {
+      id: "coverage.warranty_unverified",
+      flag: "warranty_unverified",
+      severity: "unclear",
+      when: uncovered(WARRANTY_CLAIMED, WARRANTY_COVERED),
+      explanation:
+        "The product page states a warranty that no policy text covers.",
+    },
+    {
+      id: "coverage.stock_unverified",
+      flag: "stock_unverified",
+      severity: "info",
+      when: uncovered(STOCK_CLAIMED, STOCK_COVERED),
+      explanation:
+        "The product page says {claims.stockStatus}; no policy text covers availability.",
+    },
+    {
+      id: "coverage.price_unverified",
+      flag: "price_unverified",
+      severity: "info",
+      when: uncovered(PRICE_CLAIMED, PRICE_COVERED),
+      explanation:
+        "The product page makes price claims that no pricing policy covers.",
+    },
+    {
+      id: "coverage.no_signal",
+      flag: "no_signal",
+      severity: "unclear",
+      when: {
+        not: {
+          any: [
+            RETURNS_CLAIMED,
+            RETURNS_COVERED,
+            WARRANTY_CLAIMED,
+            WARRANTY_COVERED,
+            STOCK_CLAIMED,
+            STOCK_COVERED,
+            PRICE_CLAIMED,
+            PRICE_COVERED,
+            OTHER_TERMS_STATED,
+          ],
+        },
+      },
+      explanation:
+        "Neither the product page nor the policy says anything checkable.",
+      points: -45,
+    },
+  ],
+  // A page starts at the base; every claim the policy backs adds points and
+  // every flag takes them away, so all four areas verified with no flags is
+  // 100 and a page with nothing to check ends near the bottom.
+  scoring: {
+    base: 60,
+    severityPoints: { risk: -25, caution: -10, unclear: -15, info: -5 },
+    assurances: [
+      {
+        id: "returns.verified",
+        points: 10,
+        when: verified(RETURNS_CLAIMED, RETURNS_COVERED),
+        explanation: "Return terms on the page are covered by the policy.",
+      },
+      {
+        id: "warranty.verified",
+        points: 10,
+        when: verified(WARRANTY_CLAIMED, WARRANTY_COVERED),
+        explanation: "Warranty terms on the page are covered by the policy.",
+      },
+      {
+        id: "stock.verified",
+        points: 10,
+        when: verified(STOCK_CLAIMED, STOCK_COVERED),
+        explanation: "Stock status on the page is covered by the policy.",
+      },
+      {
+        id: "price.verified",
+        points: 10,
+        when: verified(PRICE_CLAIMED, PRICE_COVERED),
+        explanation: "Price claims on the page are covered by the policy.",
+      },
+    ],
+  },
+};
+
+function findApplicableReturnRule(
+  rules: ReturnRule[],
+  scope: ReturnScope
+): ReturnRule | undefined {
+  const keys = ["category", "condition", "sale"] as const;
+  let best: { rule: ReturnRule; specificity: number } | undefined;
+  for (const rule of rules) {
+    const scoped = keys.filter((key) => rule.scope[key] !== undefined);
+    if (!scoped.length) continue;
+    if (!scoped.every((key) => rule.scope[key] === scope[key])) continue;
+    if (!best || scoped.length > best.specificity) {
+      best = { rule, specificity: scoped.length };
+    }
   }
+  return best?.rule;
+}
+
+function findWarrantyMismatch(
+  claims: ExtractedClaims,
+  policy: ExtractedPolicy
+): WarrantyMismatch | undefined {
+  const claimed = claims.warranty ?? {};
+  const covered = policy.warranty;
+  if (!covered) return undefined;
+  const policyLevel = covered.level;
 
   if (
     claims.warrantyMonths !== undefined &&
-    policy.warrantyMonths !== undefined &&
-    claims.warrantyMonths > policy.warrantyMonths
+    covered.labourMonths !== undefined &&
+    covered.labourMonths < claims.warrantyMonths
   ) {
-    flags.push("warranty_conflict");
+    return {
+      kind: "labour",
+      claimedMonths: claims.warrantyMonths,
+      coveredMonths: covered.labourMonths,
+      policyProvider: covered.provider,
+      policyLevel,
+    };
   }
 
   if (
     claims.warrantyProvided === true &&
-    policy.warrantyProvided === false
+    covered.coverage === "parts" &&
+    claimed.coverage !== "parts"
   ) {
-    flags.push("warranty_conflict");
+    return {
+      kind: "parts_only",
+      claimedMonths: claims.warrantyMonths,
+      policyProvider: covered.provider,
+      policyLevel,
+    };
   }
 
   if (
-    claims.stockStatus === "in_stock" &&
-    policy.stockWarning
+    claimed.provider !== undefined &&
+    covered.provider !== undefined &&
+    claimed.provider !== covered.provider
   ) {
-    flags.push("stock_conflict");
+    return {
+      kind: "provider",
+      claimedProvider: claimed.provider,
+      policyProvider: covered.provider,
+      policyLevel,
+    };
   }
 
-  if (
-    claims.priceGuarantee === true &&
-    policy.pricePolicy === "price_change"
-  ) {
-    flags.push("price_conflict");
-  }
+  return undefined;
+}
 
-  const returnsClaimed =
-    claims.returnsDays !== undefined || claims.returnsAllowed !== undefined;
-  const returnsPolicy =
-    policy.returnsDays !== undefined || policy.returnsAllowed !== undefined;
+function buildFacts(
+  claims: ExtractedClaims,
+  policy: ExtractedPolicy,
+  profile: BuyerProfile
+): RuleFacts {
+  // A rule scoped to the product's category, condition or sale status
+  // overrides the store-wide return window.
+  const returnRule = findApplicableReturnRule(
+    policy.returnRules ?? [],
+    claims.productScope ?? {}
+  );
+  const returns = returnRule
+    ? {
+        days: returnRule.days,
+        allowed: returnRule.allowed,
+        evidence: returnRule.evidence,
+      }
+    : { days: policy.returnsDays, allowed: policy.returnsAllowed };
+  const toMoney = (amount: number | undefined): Money | undefined =>
+    amount === undefined
+      ? undefined
+      : {
+          amount,
+          currency: claims.priceCurrency ?? null,
+          raw: String(amount),
+        };
+  const { listPrice, salePrice, discountPercent } = claims;
+  const actualDiscount =
+    listPrice && salePrice !== undefined && salePrice < listPrice
+      ? Math.round(((listPrice - salePrice) / listPrice) * 1000) / 10
+      : undefined;
+  return {
+    claims,
+    policy,
+    returns,
+    terms: {
+      returnsDays: returns.days ?? claims.returnsDays,
+      returnsAllowed: returns.allowed ?? claims.returnsAllowed,
+      warrantyMonths: policy.warrantyMonths ?? claims.warrantyMonths,
+      warrantyProvided: policy.warrantyProvided ?? claims.warrantyProvided,
+    },
+    pricing: {
+      list: toMoney(listPrice),
+      sale: toMoney(salePrice),
+      actualDiscount,
+      discountGap:
+        actualDiscount !== undefined && discountPercent !== undefined
+          ? Math.abs(actualDiscount - discountPercent)
+          : undefined,
+    },
+    warrantyMismatch: findWarrantyMismatch(claims, policy),
+    undisclosedFees: (policy.extraFees ?? []).filter(
+      (fee) => !claims.extraFees?.includes(fee)
+    ),
+    profile: buildProfileFacts(profile),
+  };
+}
 
-  const warrantyClaimed =
-    claims.warrantyMonths !== undefined || claims.warrantyProvided !== undefined;
-  const warrantyPolicy =
-    policy.warrantyMonths !== undefined || policy.warrantyProvided !== undefined;
+const SEVERITY_VERDICT: Array<[RuleSeverity, RuleResult["verdict"]]> = [
+  ["risk", "risk"],
+  ["unclear", "unclear"],
+  ["caution", "caution"],
+];
 
-  const stockClaimed = claims.stockStatus !== undefined;
-  const stockPolicy = policy.stockWarning !== undefined;
+export function detectContradictions(
+  claims: ExtractedClaims,
+  policy: ExtractedPolicy,
+  ruleSet: RuleSet = DEFAULT_RULE_SET,
+  profile: BuyerProfile = {}
+): RuleResult {
+  const facts = buildFacts(claims, policy, profile);
+  const fired = fireRules(ruleSet.rules, facts);
 
-  const priceClaimed =
-    claims.priceGuarantee !== undefined || claims.priceValue !== undefined;
-  const pricePolicy = policy.pricePolicy !== undefined;
+  const matches: RuleMatch[] = fired.map(({ rule, reason }) => {
+    // A profile's severity for a flag replaces the rule's, points included.
+    const override = profile.severity?.[rule.flag];
+    const severity = override ?? rule.severity;
+    return {
+      ruleId: rule.id,
+      flag: rule.flag,
+      severity,
+      points:
+        (override ? undefined : rule.points) ??
+        ruleSet.scoring.severityPoints[severity],
+      reason,
+    };
+  });
+  const conflicts: RuleConflict[] = fired.flatMap(({ rule, reason }) => {
+    if (!rule.evidence) return [];
+    const {
+      claim,
+      policy: policyField,
+      policyFact,
+      mismatchFact,
+    } = rule.evidence;
+    const policyEvidence = policyFact
+      ? (readFact(facts, policyFact) as Evidence | undefined)
+      : undefined;
+    return [
+      {
+        flag: rule.flag,
+        ruleId: rule.id,
+        reason,
+        claimField: claim,
+        policyField,
+        claim: claims.evidence[claim],
+        policy: policyEvidence ?? policy.evidence[policyField],
+        mismatch: mismatchFact
+          ? (readFact(facts, mismatchFact) as WarrantyMismatch | undefined)
+          : undefined,
+      },
+    ];
+  });
 
-  if (
-    (returnsClaimed && !returnsPolicy) ||
-    (warrantyClaimed && !warrantyPolicy) ||
-    (stockClaimed && !stockPolicy) ||
-    (priceClaimed && !pricePolicy)
-  ) {
-    flags.push("unclear");
-  }
+  // Several rules can raise the same flag; it's reported once.
+  const flags = [...new Set(matches.map((match) => match.flag))];
+  const verdict =
+    SEVERITY_VERDICT.find(([severity]) =>
+      matches.some((match) => match.severity === severity)
+    )?.[1] ?? "good";
 
-  const hasAnySignal = Boolean(
-    returnsClaimed ||
-      returnsPolicy ||
-      warrantyClaimed ||
-      warrantyPolicy ||
-      stockClaimed ||
-      stockPolicy ||
-      priceClaimed ||
-      pricePolicy
+  const trust = computeTrustScore(
+    ruleSet.scoring.base,
+    matches,
+    fireRules(ruleSet.scoring.assurances, facts)
   );
 
-  if (!hasAnySignal) {
-    flags.push("unclear");
-  }
-
-  const hasConflict = flags.some((flag) => flag.endsWith("_conflict"));
-  const hasUnclear = flags.includes("unclear");
-  const verdict = hasConflict
-    ? "risk"
-    : hasUnclear
-      ? "unclear"
-      : flags.length
-        ? "caution"
-        : "good";
-
-  return { flags, verdict };
+  return {
+    flags,
+    conflicts,
+    matches,
+    verdict,
+    trust,
+    rulesVersion: ruleSet.version,
+  };
 }
@@ -1,3 +1,5 @@
+import { readFixturePage } from "./fixtures";
+
 type FetchPageResult = {
   blocked: boolean;
   html?: string;
@@ -7,6 +9,9 @@ export async function fetchPageHtml(
   url: string,
   timeoutMs = 10000
 ): Promise<FetchPageResult> {
+  const fixture = readFixturePage(url);
+  if (fixture) return fixture;
+
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
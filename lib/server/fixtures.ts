@@ -0,0 +1,177 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import path from "path";
+
+import { parseMinoResult } from "@/lib/mino";
+import type { RawMinoResult } from "@/lib/mino";
+import type { PageProvider } from "@/lib/pageProvider";
+import type { RuleFlag } from "@/lib/rules";
+
+export type FixtureExpectation = {
+  verdict: "good" | "caution" | "risk" | "unclear";
+  flags: RuleFlag[];
+};
+
+export type PageFixture = {
+  name: string;
+  url: string;
+  description?: string;
+  // Absolute file paths keyed by the URL they stand in for.
+  pages: Record<string, string>;
+  mino: RawMinoResult | null;
+  expected?: FixtureExpectation;
+};
+
+type FixtureManifest = {
+  url?: unknown;
+  description?: unknown;
+  pages?: unknown;
+  expected?: unknown;
+};
+
+type FixturePageResult = {
+  blocked: boolean;
+  html?: string;
+};
+
+const MANIFEST = "fixture.json";
+const PRODUCT_PAGE = "product.html";
+const MINO_RESPONSE = "mino.json";
+
+export const fixturesDir = () =>
+  process.env.FIXTURES_DIR ?? path.join(process.cwd(), "fixtures", "pages");
+
+// Fixtures only ever stand in for the network outside production.
+export const fixturesEnabled = () => process.env.NODE_ENV !== "production";
+
+const normalizeUrl = (url: string) => {
+  try {
+    return new URL(url).toString();
+  } catch {
+    return url;
+  }
+};
+
+const readJson = (file: string): unknown =>
+  JSON.parse(readFileSync(file, "utf8"));
+
+function readManifest(dir: string, name: string): PageFixture | null {
+  const root = path.join(dir, name);
+  const manifestPath = path.join(root, MANIFEST);
+  if (!existsSync(manifestPath)) return null;
+  const manifest = readJson(manifestPath) as FixtureManifest;
+  if (typeof manifest.url !== "string" || !URL.canParse(manifest.url)) {
+    throw new Error("fixture.json has no valid url");
+  }
+
+  const url = normalizeUrl(manifest.url);
+  const pages: Record<string, string> = {};
+  if (existsSync(path.join(root, PRODUCT_PAGE))) {
+    pages[url] = path.join(root, PRODUCT_PAGE);
+  }
+  if (manifest.pages && typeof manifest.pages === "object") {
+    for (const [pageUrl, file] of Object.entries(manifest.pages)) {
+      if (typeof file === "string") {
+        pages[normalizeUrl(pageUrl)] = path.join(root, file);
+      }
+    }
+  }
+
+  const minoPath = path.join(root, MINO_RESPONSE);
+  return {
+    name,
+    url,
+    description:
+      typeof manifest.description === "string"
+        ? manifest.description
+        : undefined,
+    pages,
+    mino: existsSync(minoPath) ? (readJson(minoPath) as RawMinoResult) : null,
+    expected: manifest.expected as FixtureExpectation | undefined,
+  };
+}
+
+// One broken snapshot is skipped rather than failing every fetch.
+function readFixture(dir: string, name: string): PageFixture | null {
+  try {
+    return readManifest(dir, name);
+  } catch (error) {
+    console.warn(`Skipping fixture ${name}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+const loaded = new Map<string, PageFixture[]>();
+
+// Read once per process; restart the server to pick up new snapshots.
+export function loadFixtures(dir = fixturesDir()): PageFixture[] {
+  const cached = loaded.get(dir);
+  if (cached) return cached;
+  const fixtures = existsSync(dir)
+    ? readdirSync(dir, { withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => readFixture(dir, entry.name))
+        .filter((fixture): fixture is PageFixture => Boolean(fixture))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    : [];
+  loaded.set(dir, fixtures);
+  return fixtures;
+}
+
+export function findFixture(url: string): PageFixture | null {
+  if (!fixturesEnabled()) return null;
+  const target = normalizeUrl(url);
+  return loadFixtures().find((fixture) => fixture.url === target) ?? null;
+}
+
+// Any URL on a fixture's origin is answered from disk, and pages that were not
+// saved come back blocked rather than reaching the live site.
+export function readFixturePage(url: string): FixturePageResult | null {
+  if (!fixturesEnabled()) return null;
+  const target = normalizeUrl(url);
+  let origin: string;
+  try {
+    origin = new URL(target).origin;
+  } catch {
+    return null;
+  }
+  const fixtures = loadFixtures().filter(
+    (fixture) => new URL(fixture.url).origin === origin
+  );
+  if (!fixtures.length) return null;
+  const file = fixtures
+    .map((fixture) => fixture.pages[target])
+    .find((entry) => entry && existsSync(entry));
+  if (!file) return { blocked: true };
+  try {
+    return { blocked: false, html: readFileSync(file, "utf8") };
+  } catch {
+    return { blocked: true };
+  }
+}
+
+export function fixtureProvider(fixture: PageFixture): PageProvider {
+  return {
+    id: "fixture",
+    label: "Mino fixture",
+    isConfigured: () => fixture.mino !== null,
+    capture: async (url) => {
+      if (!fixture.mino)
+        throw new Error(`Fixture ${fixture.name} has no ${MINO_RESPONSE}`);
+      return parseMinoResult(fixture.mino, url);
+    },
+  };
+}
+
+export function checkExpectation(
+  fixture: PageFixture,
+  result: FixtureExpectation
+): string | null {
+  const expected = fixture.expected;
+  if (!expected) return null;
+  const wanted = [...expected.flags].sort().join(",");
+  const actual = [...result.flags].sort().join(",");
+  if (expected.verdict === result.verdict && wanted === actual) return null;
+  return `expected ${expected.verdict} [${wanted}], got ${result.verdict} [${actual}]`;
+}
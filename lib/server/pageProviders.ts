@@ -0,0 +1,36 @@
+import { minoProvider } from "@/lib/mino";
+import type { PageProvider, PageProviderId } from "@/lib/pageProvider";
+import { puppeteerProvider } from "./puppeteerProvider";
+
+const PROVIDERS: Record<PageProviderId, PageProvider> = {
+  mino: minoProvider,
+  puppeteer: puppeteerProvider,
+};
+
+const reported = new Set<string>();
+
+// A typo in PAGE_PROVIDER reads as a provider that isn't configured, so pages
+// are still fetched directly and the run records the failed step.
+function unknownProvider(value: string): PageProvider {
+  if (!reported.has(value)) {
+    reported.add(value);
+    console.error("Unknown PAGE_PROVIDER", { value });
+  }
+  return {
+    id: value,
+    label: `PAGE_PROVIDER "${value}"`,
+    isConfigured: () => false,
+    capture: async () => {
+      throw new Error(`Unknown PAGE_PROVIDER: ${value}`);
+    },
+  };
+}
+
+// PAGE_PROVIDER picks how product pages are rendered; Mino stays the default.
+export function getPageProvider(
+  value = process.env.PAGE_PROVIDER
+): PageProvider {
+  const id = (value ?? "mino").trim().toLowerCase();
+  if (!(id in PROVIDERS)) return unknownProvider(value ?? "");
+  return PROVIDERS[id as PageProviderId];
+}
@@ -0,0 +1,208 @@
+import { parseHtml, visibleText } from "@/lib/html";
+import type { MinoPolicyPage } from "@/lib/mino";
+import type { StructuredProduct } from "@/lib/structuredData";
+import { fetchPageHtml } from "./fetchPage";
+import { fetchPolicyPages } from "./policyDiscovery";
+
+export type StorePlatform = "shopify" | "woocommerce";
+
+export type PlatformData = {
+  platform: StorePlatform;
+  policyPages: MinoPolicyPage[];
+  product: StructuredProduct | null;
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const SHOPIFY_MARKERS = [
+  /cdn\.shopify\.com/i,
+  /\bShopify\.shop\s*=/,
+  /window\.ShopifyAnalytics/,
+  /<meta[^<>]+name=["']shopify-/i,
+  /\.myshopify\.com/i,
+];
+
+const WOOCOMMERCE_MARKERS = [
+  /\/wp-content\/plugins\/woocommerce\//i,
+  /<meta[^<>]+content=["']WooCommerce \d/i,
+  /<body[^<>]+class=["'][^"']*\bwoocommerce\b/i,
+  /\bwc-block-/,
+];
+
+const SHOPIFY_POLICIES = [
+  "/policies/refund-policy",
+  "/policies/shipping-policy",
+  "/policies/terms-of-service",
+];
+
+// WooCommerce creates the refund page with this slug on install; the terms
+// page is the one most themes link from checkout.
+const WOOCOMMERCE_POLICIES = ["/refund_returns/", "/terms-and-conditions/"];
+
+const PLATFORM_TIMEOUT_MS = 8000;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown) => {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number)
+    ? number
+    : undefined;
+};
+
+const toText = (html: unknown) =>
+  typeof html === "string" && html.trim()
+    ? visibleText(parseHtml(html))
+    : undefined;
+
+export function detectPlatform(html: string): StorePlatform | null {
+  if (SHOPIFY_MARKERS.some((marker) => marker.test(html))) return "shopify";
+  if (WOOCOMMERCE_MARKERS.some((marker) => marker.test(html))) {
+    return "woocommerce";
+  }
+  return null;
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const result = await fetchPageHtml(url, PLATFORM_TIMEOUT_MS);
+  if (result.blocked || !result.html) return null;
+  try {
+    return JSON.parse(result.html);
+  } catch {
+    return null;
+  }
+}
+
+const shopifyCurrency = (html: string) =>
+  html.match(/Shopify\.currency\s*=\s*\{\s*"active"\s*:\s*"([A-Z]{3})"/)?.[1] ??
+  html.match(
+    /<meta[^<>]+property=["']og:price:currency["'][^<>]+content=["']([A-Z]{3})["']/i
+  )?.[1];
+
+function parseShopifyProduct(
+  data: unknown,
+  currency: string | undefined
+): StructuredProduct | null {
+  const product = isRecord(data) ? data.product : undefined;
+  if (!isRecord(product)) return null;
+  const variants = Array.isArray(product.variants)
+    ? product.variants.filter(isRecord)
+    : [];
+  const image = isRecord(product.image) ? product.image.src : undefined;
+  return {
+    name: typeof product.title === "string" ? product.title : undefined,
+    description: toText(product.body_html),
+    brand: typeof product.vendor === "string" ? product.vendor : undefined,
+    sku: typeof variants[0]?.sku === "string" ? variants[0].sku : undefined,
+    image: typeof image === "string" ? image : undefined,
+    offers: variants.map((variant) => {
+      const price = toNumber(variant.price);
+      const compareAt = toNumber(variant.compare_at_price);
+      // Themes fill compare_at_price with "0.00" or the price itself when the
+      // item isn't discounted.
+      const listPrice =
+        compareAt !== undefined &&
+        compareAt > 0 &&
+        (price === undefined || compareAt > price)
+          ? compareAt
+          : undefined;
+      return { price, listPrice, currency };
+    }),
+    source: { format: "shopify" },
+  };
+}
+
+// The Store API reports prices in minor units ("1999" with a minor unit of
+// 2 is 19.99).
+function parseWooProduct(data: unknown): StructuredProduct | null {
+  const product = Array.isArray(data) ? data.find(isRecord) : undefined;
+  if (!product) return null;
+  const prices = isRecord(product.prices) ? product.prices : {};
+  const scale = 10 ** (toNumber(prices.currency_minor_unit) ?? 2);
+  const amount = (value: unknown) => {
+    const minor = toNumber(value);
+    return minor === undefined ? undefined : minor / scale;
+  };
+  const regular = amount(prices.regular_price);
+  const price = amount(prices.price);
+  return {
+    name: typeof product.name === "string" ? product.name : undefined,
+    description:
+      toText(product.description) ?? toText(product.short_description),
+    sku: typeof product.sku === "string" ? product.sku : undefined,
+    offers: [
+      {
+        price,
+        listPrice:
+          regular !== undefined && regular !== price ? regular : undefined,
+        currency:
+          typeof prices.currency_code === "string"
+            ? prices.currency_code
+            : undefined,
+        availability:
+          product.is_in_stock === true
+            ? "in_stock"
+            : product.is_on_backorder === true
+              ? "backorder"
+              : product.is_in_stock === false
+                ? "out_of_stock"
+                : undefined,
+      },
+    ],
+    source: { format: "woocommerce" },
+  };
+}
+
+async function fetchShopify(url: URL, html: string): Promise<PlatformData> {
+  const handle = url.pathname.match(/\/products\/([^/.?#]+)/)?.[1];
+  const [policyPages, productJson] = await Promise.all([
+    fetchPolicyPages(
+      SHOPIFY_POLICIES.map((path) => new URL(path, url.origin).toString()),
+      PLATFORM_TIMEOUT_MS
+    ),
+    handle
+      ? fetchJson(new URL(`/products/${handle}.json`, url.origin).toString())
+      : Promise.resolve(null),
+  ]);
+  return {
+    platform: "shopify",
+    policyPages,
+    product: parseShopifyProduct(productJson, shopifyCurrency(html)),
+  };
+}
+
+async function fetchWooCommerce(url: URL): Promise<PlatformData> {
+  const slug = url.pathname.match(/\/product\/([^/?#]+)/)?.[1];
+  const [policyPages, productJson] = await Promise.all([
+    fetchPolicyPages(
+      WOOCOMMERCE_POLICIES.map((path) => new URL(path, url.origin).toString()),
+      PLATFORM_TIMEOUT_MS
+    ),
+    slug
+      ? fetchJson(
+          new URL(
+            `/wp-json/wc/store/v1/products?slug=${encodeURIComponent(slug)}`,
+            url.origin
+          ).toString()
+        )
+      : Promise.resolve(null),
+  ]);
+  return {
+    platform: "woocommerce",
+    policyPages,
+    product: parseWooProduct(productJson),
+  };
+}
+
+export async function fetchPlatformData(
+  url: string,
+  html: string
+): Promise<PlatformData | null> {
+  const platform = detectPlatform(html);
+  if (!platform) return null;
+  const parsed = new URL(url);
+  return platform === "shopify"
+    ? fetchShopify(parsed, html)
+    : fetchWooCommerce(parsed);
+}
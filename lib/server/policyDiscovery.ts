@@ -0,0 +1,163 @@
+import {
+  parseHtml,
+  querySelector,
+  querySelectorAll,
+  visibleText,
+} from "@/lib/html";
+import type { HtmlElement } from "@/lib/html";
+import type { MinoPolicyPage } from "@/lib/mino";
+import { fetchPageHtml } from "./fetchPage";
+
+export type PolicyTopic =
+  "returns" | "warranty" | "shipping" | "terms" | "help";
+
+export type PolicyLink = {
+  url: string;
+  text: string;
+  topic: PolicyTopic;
+  score: number;
+};
+
+type DiscoveryOptions = {
+  limit?: number;
+  timeoutMs?: number;
+  exclude?: string[];
+};
+
+const TOPIC_PATTERNS: Array<[PolicyTopic, RegExp, number]> = [
+  ["returns", /\b(?:returns?|refunds?|exchanges?|cancellations?)\b/i, 5],
+  ["warranty", /\b(?:warrant(?:y|ies)|guarantee)\b/i, 4],
+  ["shipping", /\b(?:shipping|delivery)\b/i, 3],
+  ["terms", /\b(?:terms|conditions|conditions of (?:use|sale)|legal)\b/i, 3],
+  ["help", /\b(?:help|faqs?|support|customer (?:service|care))\b/i, 1],
+];
+
+const SKIP_PATH =
+  /\/(?:cart|checkout|login|signin|sign-in|account|register|wishlist|search)\b/i;
+
+const POLICY_BODY_SELECTORS = [
+  ".shopify-policy__body",
+  ".entry-content",
+  "main",
+  "article",
+  "[role='main']",
+  "body",
+];
+
+const siteOf = (hostname: string) =>
+  hostname.toLowerCase().replace(/^www\./, "");
+
+function isWithin(element: HtmlElement, tags: string[]) {
+  for (let parent = element.parent; parent; parent = parent.parent) {
+    if (tags.includes(parent.tag)) return true;
+    const role = parent.attributes.role;
+    if (role === "contentinfo" || role === "navigation") return true;
+  }
+  return false;
+}
+
+// A malformed escape ("/100%-returns") leaves the path as it was written.
+function decodePath(pathname: string): string {
+  try {
+    return decodeURIComponent(pathname);
+  } catch {
+    return pathname;
+  }
+}
+
+// Scores every same-site link by what its label and path say it is about.
+// Footer and navigation links get a small boost because that's where stores
+// keep their policy pages.
+export function findPolicyLinks(html: string, pageUrl: string): PolicyLink[] {
+  const base = new URL(pageUrl);
+  const site = siteOf(base.hostname);
+  const links = new Map<string, PolicyLink>();
+
+  for (const anchor of querySelectorAll(parseHtml(html), "a[href]")) {
+    let target: URL;
+    try {
+      target = new URL(anchor.attributes.href, base);
+    } catch {
+      continue;
+    }
+    if (!/^https?:$/.test(target.protocol)) continue;
+    if (siteOf(target.hostname) !== site) continue;
+    if (SKIP_PATH.test(target.pathname)) continue;
+    target.hash = "";
+    const url = target.toString();
+    if (url === base.toString()) continue;
+
+    const text = visibleText(anchor).slice(0, 120);
+    const path = decodePath(target.pathname).replace(/[-_/]+/g, " ");
+    let best: { topic: PolicyTopic; score: number } | null = null;
+    for (const [topic, pattern, weight] of TOPIC_PATTERNS) {
+      const score =
+        (pattern.test(text) ? weight : 0) + (pattern.test(path) ? weight : 0);
+      if (score && (!best || score > best.score)) best = { topic, score };
+    }
+    if (!best) continue;
+
+    const score =
+      best.score +
+      (/\bpolic(?:y|ies)\b/i.test(`${text} ${path}`) ? 2 : 0) +
+      (isWithin(anchor, ["footer", "nav"]) ? 1 : 0);
+    const existing = links.get(url);
+    if (!existing || existing.score < score) {
+      links.set(url, { url, text, topic: best.topic, score });
+    }
+  }
+
+  return [...links.values()].sort((a, b) => b.score - a.score);
+}
+
+// Takes the best link for each topic before a second link of any topic, so a
+// footer with five return-related links still leaves room for the warranty.
+export function selectPolicyLinks(links: PolicyLink[], limit: number) {
+  const seen = new Set<PolicyTopic>();
+  const first = links.filter((link) => {
+    if (seen.has(link.topic)) return false;
+    seen.add(link.topic);
+    return true;
+  });
+  const rest = links.filter((link) => !first.includes(link));
+  return [...first, ...rest].slice(0, limit);
+}
+
+export function readPolicyText(html: string): string {
+  const document = parseHtml(html);
+  const body = POLICY_BODY_SELECTORS.map((selector) =>
+    querySelector(document, selector)
+  ).find(Boolean);
+  return visibleText(body ?? document);
+}
+
+export async function fetchPolicyPages(
+  urls: string[],
+  timeoutMs?: number
+): Promise<MinoPolicyPage[]> {
+  const pages = await Promise.all(
+    urls.map(async (url) => {
+      const result = await fetchPageHtml(url, timeoutMs);
+      if (result.blocked || !result.html) return null;
+      const text = readPolicyText(result.html);
+      return text ? { url, text } : null;
+    })
+  );
+  return pages.filter((page): page is MinoPolicyPage => Boolean(page));
+}
+
+export async function discoverPolicyPages(
+  pageUrl: string,
+  html: string,
+  options: DiscoveryOptions = {}
+): Promise<MinoPolicyPage[]> {
+  const exclude = new Set(options.exclude ?? []);
+  const links = findPolicyLinks(html, pageUrl).filter(
+    (link) => !exclude.has(link.url)
+  );
+  const selected = selectPolicyLinks(links, options.limit ?? 3);
+  return fetchPolicyPages(
+    selected.map((link) => link.url),
+    options.timeoutMs
+  );
+}
@@ -0,0 +1,97 @@
+import type { Browser, Page } from "puppeteer";
+
+import type { MinoPolicyPage, MinoResult } from "@/lib/mino";
+import type { PageProvider } from "@/lib/pageProvider";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
+import { findPolicyLinks, selectPolicyLinks } from "./policyDiscovery";
+
+const NAVIGATION_TIMEOUT_MS = 30000;
+const MAX_POLICY_PAGES = 3;
+
+async function launchBrowser(): Promise<Browser> {
+  // Loaded lazily so deployments that only use Mino never need Chromium.
+  const { default: puppeteer } = await import("puppeteer");
+  return puppeteer.launch({
+    headless: true,
+    executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+    args: ["--no-sandbox", "--disable-dev-shm-usage"],
+  });
+}
+
+async function loadPage(page: Page, url: string): Promise<void> {
+  await page.setViewport({ width: 1280, height: 900 });
+  await page.goto(url, {
+    waitUntil: "networkidle2",
+    timeout: NAVIGATION_TIMEOUT_MS,
+  });
+}
+
+const readVisibleText = (page: Page) =>
+  page.evaluate(() => document.body?.innerText ?? "");
+
+async function capturePolicyPage(
+  browser: Browser,
+  url: string
+): Promise<MinoPolicyPage | null> {
+  let page: Page | null = null;
+  try {
+    page = await browser.newPage();
+    await loadPage(page, url);
+    const text = (await readVisibleText(page)).trim();
+    return text ? { url, text } : null;
+  } catch {
+    return null;
+  } finally {
+    // A policy page that timed out would otherwise stay open for the rest of
+    // the capture.
+    await page?.close().catch(() => undefined);
+  }
+}
+
+export async function runPuppeteerAgent(url: string): Promise<MinoResult> {
+  const browser = await launchBrowser();
+  try {
+    const page = await browser.newPage();
+    await loadPage(page, url);
+    const html = await page.content();
+    const productText = await readVisibleText(page);
+    const screenshot = await page.screenshot({
+      type: "jpeg",
+      quality: 70,
+      encoding: "base64",
+    });
+    const productUrl = page.url();
+    const info = extractProductInfo(html, productUrl);
+
+    // Links are read from the rendered DOM, so menus and footers injected by
+    // scripts are included.
+    const links = selectPolicyLinks(
+      findPolicyLinks(html, productUrl),
+      MAX_POLICY_PAGES
+    );
+    const policyPages: MinoPolicyPage[] = [];
+    for (const link of links) {
+      const policyPage = await capturePolicyPage(browser, link.url);
+      if (policyPage) policyPages.push(policyPage);
+    }
+
+    return {
+      productUrl,
+      productText,
+      policyPages,
+      previewImage: `data:image/jpeg;base64,${screenshot}`,
+      productTitle: info.title ?? undefined,
+      productPrice: info.price ?? undefined,
+      productDescription: info.description ?? undefined,
+    };
+  } finally {
+    await browser.close();
+  }
+}
+
+export const puppeteerProvider: PageProvider = {
+  id: "puppeteer",
+  label: "local browser",
+  isConfigured: () => true,
+  capture: runPuppeteerAgent,
+};
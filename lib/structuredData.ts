@@ -0,0 +1,405 @@
+import { MAX_HTML_LENGTH } from "./html";
+import { parseDataAmount } from "./money";
+import type { Money } from "./money";
+
+export type StockAvailability =
+  "in_stock" | "out_of_stock" | "preorder" | "backorder";
+
+export type StructuredOffer = {
+  price?: number;
+  listPrice?: number;
+  currency?: string;
+  availability?: StockAvailability;
+  seller?: string;
+  url?: string;
+};
+
+export type StructuredReturnPolicy = {
+  allowed?: boolean;
+  days?: number;
+  fees?: "free" | "buyer_pays" | "restocking_fee";
+};
+
+export type StructuredCondition = "new" | "used" | "refurbished" | "damaged";
+
+export type StructuredProduct = {
+  name?: string;
+  description?: string;
+  brand?: string;
+  // The product's category or breadcrumb trail, as the store names it.
+  category?: string;
+  condition?: StructuredCondition;
+  sku?: string;
+  image?: string;
+  offers: StructuredOffer[];
+  rating?: { value: number; count?: number };
+  returnPolicy?: StructuredReturnPolicy;
+  warrantyMonths?: number;
+  source: StructuredSource;
+};
+
+// Offsets into the page HTML; platform API responses have none.
+export type StructuredSource = {
+  format: "json-ld" | "microdata" | "rdfa" | "shopify" | "woocommerce";
+  start?: number;
+  end?: number;
+};
+
+export type JsonObject = Record<string, unknown>;
+
+type JsonLdBlock = {
+  data: unknown;
+  start: number;
+  end: number;
+};
+
+// The tag can't span a "<" and an unclosed block runs to the end of the input,
+// so no part of the page is scanned more than once.
+const JSON_LD_SCRIPT =
+  /<script[^<>]*type\s*=\s*["']application\/ld\+json["'][^<>]*>([\s\S]*?)(?:<\/script>|$)/gi;
+
+const AVAILABILITY: Record<string, StockAvailability> = {
+  instock: "in_stock",
+  limitedavailability: "in_stock",
+  onlineonly: "in_stock",
+  instoreonly: "in_stock",
+  outofstock: "out_of_stock",
+  soldout: "out_of_stock",
+  discontinued: "out_of_stock",
+  preorder: "preorder",
+  presale: "preorder",
+  backorder: "backorder",
+};
+
+const CONDITIONS: Record<string, StructuredCondition> = {
+  newcondition: "new",
+  usedcondition: "used",
+  refurbishedcondition: "refurbished",
+  damagedcondition: "damaged",
+};
+
+const WARRANTY_UNITS: Record<string, number> = {
+  ann: 12,
+  year: 12,
+  years: 12,
+  mon: 1,
+  month: 1,
+  months: 1,
+  wee: 7 / 30,
+  week: 7 / 30,
+  weeks: 7 / 30,
+  day: 1 / 30,
+  days: 1 / 30,
+};
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+const asText = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value.trim() || undefined;
+  if (typeof value === "number") return String(value);
+  if (isObject(value)) return asText(value.name ?? value["@value"]);
+  if (Array.isArray(value)) return asText(value[0]);
+  return undefined;
+};
+
+const asNumber = (value: unknown): number | undefined => {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string") return parseDataAmount(value) ?? undefined;
+  return undefined;
+};
+
+const typeName = (value: string) =>
+  value.replace(/^https?:\/\/schema\.org\//i, "").toLowerCase();
+
+const hasType = (node: JsonObject, ...types: string[]) =>
+  asArray(node["@type"]).some(
+    (entry) => typeof entry === "string" && types.includes(typeName(entry))
+  );
+
+export function parseAvailability(
+  value: string | undefined
+): StockAvailability | undefined {
+  if (!value) return undefined;
+  return AVAILABILITY[typeName(value).replace(/[^a-z]/g, "")];
+}
+
+export function readJsonLdBlocks(html: string): JsonLdBlock[] {
+  const blocks: JsonLdBlock[] = [];
+  for (const match of html.slice(0, MAX_HTML_LENGTH).matchAll(JSON_LD_SCRIPT)) {
+    const body = match[1]
+      .replace(/^\s*<!--/, "")
+      .replace(/-->\s*$/, "")
+      .replace(/^\s*\/\/\s*<!\[CDATA\[/, "")
+      .replace(/\/\/\s*\]\]>\s*$/, "")
+      .trim();
+    if (!body) continue;
+    try {
+      const start = match.index ?? 0;
+      blocks.push({
+        data: JSON.parse(body),
+        start,
+        end: start + match[0].length,
+      });
+    } catch {
+      // Stores ship malformed JSON-LD often enough that one bad block
+      // should not hide the rest.
+    }
+  }
+  return blocks;
+}
+
+function collectNodes(value: unknown, nodes: JsonObject[], depth = 0) {
+  if (depth > 8) return;
+  for (const entry of asArray(value)) {
+    if (!isObject(entry)) continue;
+    nodes.push(entry);
+    if (entry["@graph"]) collectNodes(entry["@graph"], nodes, depth + 1);
+    for (const key of ["mainEntity", "itemListElement", "item"]) {
+      if (entry[key]) collectNodes(entry[key], nodes, depth + 1);
+    }
+  }
+}
+
+function parseOffers(value: unknown): StructuredOffer[] {
+  const offers: StructuredOffer[] = [];
+  for (const entry of asArray(value)) {
+    if (!isObject(entry)) continue;
+    const nested = hasType(entry, "aggregateoffer")
+      ? parseOffers(entry.offers)
+      : [];
+    if (nested.length) {
+      offers.push(...nested);
+      continue;
+    }
+    const specifications = asArray(entry.priceSpecification).filter(isObject);
+    const listSpecification = specifications.find((spec) =>
+      /listprice|strikethroughprice|msrp/.test(
+        typeName(asText(spec.priceType) ?? "")
+      )
+    );
+    const specification =
+      specifications.find((spec) => spec !== listSpecification) ??
+      specifications[0];
+    const price =
+      asNumber(entry.price) ??
+      asNumber(entry.lowPrice) ??
+      asNumber(specification?.price);
+    const currency = asText(
+      entry.priceCurrency ?? specification?.priceCurrency
+    )?.toUpperCase();
+    offers.push({
+      price,
+      listPrice: asNumber(listSpecification?.price),
+      currency,
+      availability: parseAvailability(asText(entry.availability)),
+      seller: asText(entry.seller),
+      url: asText(entry.url),
+    });
+  }
+  return offers;
+}
+
+function parseReturnPolicy(node: JsonObject): StructuredReturnPolicy {
+  const category = typeName(asText(node.returnPolicyCategory) ?? "");
+  const fees = typeName(asText(node.returnFees) ?? "");
+  const days = asNumber(node.merchantReturnDays);
+  return {
+    allowed: category.includes("notpermitted")
+      ? false
+      : category || days !== undefined
+        ? true
+        : undefined,
+    days: category.includes("notpermitted") ? undefined : days,
+    fees: fees.includes("freereturn")
+      ? "free"
+      : fees.includes("restocking")
+        ? "restocking_fee"
+        : fees.includes("customerresponsibility") ||
+            fees.includes("returnshippingfees")
+          ? "buyer_pays"
+          : undefined,
+  };
+}
+
+function parseWarrantyMonths(value: unknown): number | undefined {
+  for (const entry of asArray(value)) {
+    if (!isObject(entry)) continue;
+    const duration = asArray(entry.durationOfWarranty).find(isObject);
+    const amount = asNumber(duration?.value);
+    const unit = (
+      asText(duration?.unitCode) ??
+      asText(duration?.unitText) ??
+      ""
+    ).toLowerCase();
+    if (amount !== undefined && unit in WARRANTY_UNITS) {
+      return Math.round(amount * WARRANTY_UNITS[unit] * 10) / 10;
+    }
+  }
+  return undefined;
+}
+
+function parseCondition(product: JsonObject): StructuredCondition | undefined {
+  const values = [
+    product.itemCondition,
+    ...asArray(product.offers).map((offer) =>
+      isObject(offer) ? offer.itemCondition : undefined
+    ),
+  ];
+  for (const value of values) {
+    const condition = CONDITIONS[typeName(asText(value) ?? "")];
+    if (condition) return condition;
+  }
+  return undefined;
+}
+
+function findCategory(
+  product: JsonObject,
+  nodes: JsonObject[]
+): string | undefined {
+  const breadcrumb = nodes.find((node) => hasType(node, "breadcrumblist"));
+  const crumbs = asArray(breadcrumb?.itemListElement)
+    .filter(isObject)
+    .map(
+      (entry) =>
+        asText(entry.name) ??
+        (isObject(entry.item) ? asText(entry.item) : undefined)
+    )
+    .filter((name): name is string => Boolean(name));
+  return asText(product.category) ?? (crumbs.join(" > ") || undefined);
+}
+
+function findReturnPolicy(
+  product: JsonObject,
+  nodes: JsonObject[]
+): StructuredReturnPolicy | undefined {
+  const candidates = [
+    ...asArray(product.hasMerchantReturnPolicy),
+    ...asArray(product.offers).flatMap((offer) =>
+      isObject(offer) ? asArray(offer.hasMerchantReturnPolicy) : []
+    ),
+    ...nodes.flatMap((node) => asArray(node.hasMerchantReturnPolicy)),
+    ...nodes.filter((node) => hasType(node, "merchantreturnpolicy")),
+  ];
+  const policy = candidates.find(isObject);
+  return policy ? parseReturnPolicy(policy) : undefined;
+}
+
+function collectOfferWarranties(value: unknown): unknown[] {
+  return asArray(value).flatMap((offer) =>
+    isObject(offer)
+      ? [...asArray(offer.warranty), ...collectOfferWarranties(offer.offers)]
+      : []
+  );
+}
+
+export function isProductNode(node: JsonObject): boolean {
+  return hasType(node, "product", "productgroup", "individualproduct");
+}
+
+export function parseProductNode(
+  product: JsonObject,
+  nodes: JsonObject[],
+  source: StructuredSource
+): StructuredProduct {
+  const rating = asArray(product.aggregateRating).find(isObject);
+  const ratingValue = asNumber(rating?.ratingValue);
+  return {
+    name: asText(product.name),
+    description: asText(product.description),
+    brand: asText(product.brand),
+    category: findCategory(product, nodes),
+    condition: parseCondition(product),
+    sku: asText(product.sku ?? product.mpn ?? product.gtin13),
+    image: asText(product.image),
+    offers: parseOffers(product.offers),
+    rating:
+      ratingValue !== undefined
+        ? {
+            value: ratingValue,
+            count: asNumber(rating?.reviewCount ?? rating?.ratingCount),
+          }
+        : undefined,
+    // Return policies are often published on the Organization, sometimes in
+    // a different block from the Product, so every node is a candidate.
+    returnPolicy: findReturnPolicy(product, nodes),
+    warrantyMonths: parseWarrantyMonths([
+      ...asArray(product.warranty),
+      ...collectOfferWarranties(product.offers),
+    ]),
+    source,
+  };
+}
+
+export function parseJsonLd(html: string): StructuredProduct | null {
+  const entries = readJsonLdBlocks(html).flatMap((block) => {
+    const nodes: JsonObject[] = [];
+    collectNodes(block.data, nodes);
+    return nodes.map((node) => ({ node, block }));
+  });
+  const nodes = entries.map((entry) => entry.node);
+
+  return mergeStructured(
+    ...entries
+      .filter(({ node }) => isProductNode(node))
+      .map(({ node, block }) =>
+        parseProductNode(node, nodes, {
+          format: "json-ld",
+          start: block.start,
+          end: block.end,
+        })
+      )
+  );
+}
+
+export function mergeProducts(
+  primary: StructuredProduct,
+  secondary: StructuredProduct
+): StructuredProduct {
+  return {
+    name: primary.name ?? secondary.name,
+    description: primary.description ?? secondary.description,
+    brand: primary.brand ?? secondary.brand,
+    category: primary.category ?? secondary.category,
+    condition: primary.condition ?? secondary.condition,
+    sku: primary.sku ?? secondary.sku,
+    image: primary.image ?? secondary.image,
+    offers: primary.offers.length ? primary.offers : secondary.offers,
+    rating: primary.rating ?? secondary.rating,
+    returnPolicy: primary.returnPolicy ?? secondary.returnPolicy,
+    warrantyMonths: primary.warrantyMonths ?? secondary.warrantyMonths,
+    source: primary.source,
+  };
+}
+
+export function mergeStructured(
+  ...products: Array<StructuredProduct | null>
+): StructuredProduct | null {
+  return products.reduce<StructuredProduct | null>(
+    (result, product) =>
+      result && product ? mergeProducts(result, product) : (result ?? product),
+    null
+  );
+}
+
+export function offerMoney(product: StructuredProduct | null): Money | null {
+  const offer = product ? primaryOffer(product) : undefined;
+  if (offer?.price === undefined) return null;
+  return {
+    amount: offer.price,
+    currency: offer.currency ?? null,
+    raw: String(offer.price),
+  };
+}
+
+export function primaryOffer(
+  product: StructuredProduct
+): StructuredOffer | undefined {
+  return (
+    product.offers.find((offer) => offer.price !== undefined) ??
+    product.offers[0]
+  );
+}
@@ -1,5 +1,17 @@
-import type { ExtractedClaims, ExtractedPolicy } from "@/lib/extract";
-import type { RuleFlag } from "@/lib/rules";
+import type { DarkPatternKind } from "@/lib/darkPatterns";
+import type {
+  ExtraFee,
+  ExtractedClaims,
+  ExtractedPolicy,
+  Fee,
+} from "@/lib/extract";
+import { formatMoney, parseMoney } from "@/lib/money";
+import type {
+  RuleConflict,
+  RuleFlag,
+  RuleMatch,
+  RuleResult,
+} from "@/lib/rules";
 
 type ProductInsight = {
   message: string;
@@ -14,6 +26,8 @@ type ProductDetails = {
   price: string | null;
   description: string;
   flags: RuleFlag[];
+  conflicts: RuleConflict[];
+  matches: RuleMatch[];
   hiddenFindings: string[];
   policyStatus: "present" | "missing";
 };
@@ -44,33 +58,147 @@ function extractProductName(productText: string, fallbackUrl: string): string {
 }
 
 function extractPriceLabel(productText: string): string | null {
-  const match = productText.match(
-    /(USD|INR|EUR|GBP|CAD|AUD|[$€£₹])\s*([0-9][0-9,]*(?:\.[0-9]{1,2})?)/i
-  );
-  if (!match) return null;
-  const currency = match[1].toUpperCase();
-  const amount = match[2];
-  if (currency.length === 1) return `${currency}${amount}`;
-  return `${currency} ${amount}`;
+  const money = parseMoney(productText);
+  return money ? formatMoney(money) : null;
+}
+
+function claimedPriceLabel(claims: ExtractedClaims): string | null {
+  if (claims.priceValue === undefined) return null;
+  return formatMoney({
+    amount: claims.priceValue,
+    currency: claims.priceCurrency ?? null,
+    raw: claims.evidence.priceValue?.snippet ?? String(claims.priceValue),
+  });
+}
+
+const EXTRA_FEE_LABELS: Record<ExtraFee, string> = {
+  cod: "cash-on-delivery",
+  convenience: "convenience",
+  handling: "handling",
+};
+
+function describeFee(fee: Fee): string {
+  if (fee.percent !== undefined) return `${fee.percent}%`;
+  if (fee.amount !== undefined) {
+    return formatMoney({
+      amount: fee.amount,
+      currency: fee.currency ?? null,
+      raw: String(fee.amount),
+    });
+  }
+  return "a fee";
 }
 
 function describeHiddenFindings(
   flags: RuleFlag[],
-  policyStatus: "present" | "missing"
+  policyStatus: "present" | "missing",
+  claims: ExtractedClaims,
+  policy: ExtractedPolicy
 ): string[] {
   const findings: string[] = [];
   const hasFlag = (flag: RuleFlag) => flags.includes(flag);
+  const quote = (kind: DarkPatternKind) => {
+    const snippet = claims.darkPatterns?.[kind]?.snippet;
+    return snippet ? ` ("${snippet}")` : "";
+  };
 
   if (hasFlag("returns_conflict"))
     findings.push("Return policy claims conflict with policy details.");
   if (hasFlag("warranty_conflict"))
     findings.push("Warranty terms conflict between product and policy.");
+  if (hasFlag("warranty_scope_conflict"))
+    findings.push("Warranty coverage is narrower than the product page claims.");
   if (hasFlag("stock_conflict"))
     findings.push("Stock availability conflicts with policy warnings.");
   if (hasFlag("price_conflict"))
     findings.push("Price guarantees conflict with policy price changes.");
-  if (hasFlag("unclear"))
-    findings.push("Some claims lack clear policy coverage.");
+  if (hasFlag("returns_conditional"))
+    findings.push(
+      "Returns are subject to exceptions or conditions in the policy."
+    );
+  if (hasFlag("warranty_conditional"))
+    findings.push("Warranty coverage only applies under certain conditions.");
+  if (hasFlag("return_shipping_conflict"))
+    findings.push(
+      "Returns are advertised as free, but the buyer pays return shipping."
+    );
+  if (hasFlag("shipping_conflict") && policy.freeShippingThreshold)
+    findings.push(
+      `Free shipping only applies to orders over ${formatMoney(
+        policy.freeShippingThreshold
+      )}.`
+    );
+  if (hasFlag("refund_method_conflict"))
+    findings.push(
+      policy.refundMethod === "exchange_only"
+        ? "Refunds are replaced by exchanges only."
+        : "Refunds are issued as store credit, not to the original payment."
+    );
+  if (hasFlag("refund_timeline_conflict") && policy.refundDays !== undefined)
+    findings.push(
+      `Refunds can take up to ${policy.refundDays} days to process.`
+    );
+  if (hasFlag("restocking_fee") && policy.restockingFee)
+    findings.push(
+      `Returns carry a restocking fee of ${describeFee(policy.restockingFee)}.`
+    );
+  const undisclosedFees = (policy.extraFees ?? []).filter(
+    (fee) => !claims.extraFees?.includes(fee)
+  );
+  if (hasFlag("extra_fees") && undisclosedFees.length)
+    findings.push(
+      `Checkout may add ${undisclosedFees
+        .map((fee) => EXTRA_FEE_LABELS[fee])
+        .join(", ")} fees.`
+    );
+  if (hasFlag("returns_unverified"))
+    findings.push(
+      "Return terms could not be checked against a returns policy."
+    );
+  if (hasFlag("warranty_unverified"))
+    findings.push(
+      "Warranty claims could not be checked against a warranty policy."
+    );
+  if (hasFlag("stock_unverified"))
+    findings.push("Stock status is not backed by an availability policy.");
+  if (hasFlag("price_unverified"))
+    findings.push("Price claims are not backed by a pricing policy.");
+  if (hasFlag("no_signal"))
+    findings.push(
+      "Neither the page nor the policies mention returns, warranty, stock or price."
+    );
+  if (hasFlag("discount_mismatch"))
+    findings.push("The advertised discount does not match the prices shown.");
+  if (hasFlag("discount_impossible"))
+    findings.push("The list price or discount shown is not a real saving.");
+  if (hasFlag("discount_unreferenced"))
+    findings.push("A discount is advertised with no original price given.");
+  if (hasFlag("false_scarcity"))
+    findings.push(
+      `Low-stock messages may be used to rush you${quote("scarcity")}.`
+    );
+  if (hasFlag("countdown_pressure"))
+    findings.push(
+      `A deal countdown or deadline may be used to rush you${quote("countdown")}.`
+    );
+  if (hasFlag("activity_pressure"))
+    findings.push(
+      `Other shoppers' activity is shown to rush you${quote("activity")}.`
+    );
+  if (hasFlag("preselected_addon"))
+    findings.push(
+      `An add-on is pre-selected and may be added to your order${quote(
+        "preselected_addon"
+      )}.`
+    );
+  if (hasFlag("returns_below_requirement"))
+    findings.push("The return window falls short of your buyer profile.");
+  if (hasFlag("warranty_below_requirement"))
+    findings.push("The warranty falls short of your buyer profile.");
+  if (hasFlag("condition_not_accepted"))
+    findings.push("The item is not new, and your buyer profile requires new.");
+  if (hasFlag("region_mismatch"))
+    findings.push("The item is priced for a different region than yours.");
   if (policyStatus === "missing")
     findings.push("No policy pages were found to verify hidden costs or terms.");
 
@@ -99,6 +227,14 @@ export function buildProductInsight(
 
   if (claims.returnsAllowed === false) cons.push("Returns may not be allowed.");
   if (claims.warrantyProvided === false) cons.push("No warranty is indicated.");
+  if (policy.returnsTerms === "conditional")
+    cons.push("Returns come with exceptions or conditions.");
+  if (policy.warrantyTerms === "conditional")
+    cons.push("Warranty coverage has conditions.");
+  if (policy.warranty?.level === "limited")
+    cons.push("Warranty is a limited warranty.");
+  if (claims.warranty?.extendedOffer)
+    cons.push("An extended warranty or protection plan is upsold.");
   if (policy.stockWarning) cons.push("Availability may be limited.");
   if (policy.pricePolicy === "price_change")
     cons.push("Prices can change without notice.");
@@ -124,7 +260,7 @@ export function buildProductDetails(
   url: string,
   productText: string,
   policyText: string,
-  flags: RuleFlag[],
+  rules: Pick<RuleResult, "flags" | "conflicts" | "matches">,
   claims: ExtractedClaims,
   policy: ExtractedPolicy,
   overrides?: {
@@ -138,21 +274,29 @@ export function buildProductDetails(
     overrides?.title?.trim() ||
     extractProductName(productText, url);
   const price =
+    extractPriceLabel(overrides?.price?.trim() ?? "") ||
     overrides?.price?.trim() ||
-    extractPriceLabel(productText) ||
+    claimedPriceLabel(claims) ||
     null;
   const description =
     overrides?.description?.trim() ||
     firstSentences(productText, 8) ||
     (productText.trim() ? productText.trim().slice(0, 320) : "") ||
     "No detailed description found on the product page.";
-  const hiddenFindings = describeHiddenFindings(flags, policyStatus);
+  const hiddenFindings = describeHiddenFindings(
+    rules.flags,
+    policyStatus,
+    claims,
+    policy
+  );
 
   return {
     name,
     price,
     description,
-    flags,
+    flags: rules.flags,
+    conflicts: rules.conflicts,
+    matches: rules.matches,
     hiddenFindings,
     policyStatus,
   };
@@ -0,0 +1,51 @@
+import type { FiredRule } from "./ruleEngine";
+import type { AssuranceDefinition, RuleFlag, RuleMatch } from "./rules";
+
+export type ScoreContribution = {
+  id: string;
+  flag?: RuleFlag;
+  points: number;
+  reason: string;
+};
+
+export type TrustScore = {
+  score: number;
+  base: number;
+  contributions: ScoreContribution[];
+};
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+// A flag costs points once, at the heaviest of the rules that raised it, so
+// restating one problem in two ways doesn't sink the score twice.
+export function computeTrustScore(
+  base: number,
+  matches: RuleMatch[],
+  assurances: Array<FiredRule<AssuranceDefinition>>
+): TrustScore {
+  const byFlag = new Map<RuleFlag, ScoreContribution>();
+  for (const match of matches) {
+    const existing = byFlag.get(match.flag);
+    if (existing && existing.points <= match.points) continue;
+    byFlag.set(match.flag, {
+      id: match.ruleId,
+      flag: match.flag,
+      points: match.points,
+      reason: match.reason,
+    });
+  }
+
+  const contributions: ScoreContribution[] = [
+    ...assurances.map(({ rule, reason }) => ({
+      id: rule.id,
+      points: rule.points,
+      reason,
+    })),
+    ...byFlag.values(),
+  ];
+  const total = contributions.reduce(
+    (sum, contribution) => sum + contribution.points,
+    base
+  );
+  return { score: Math.round(clamp(total)), base, contributions };
+}
@@ -1,4 +1,7 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // Only loaded when PAGE_PROVIDER=puppeteer; keep it out of the bundle.
+  serverExternalPackages: ["puppeteer"],
+};
 
 export default nextConfig;
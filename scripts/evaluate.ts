@@ -0,0 +1,353 @@
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+import { extractClaims, extractPolicy } from "@/lib/extract";
+import type { ExtractedField } from "@/lib/extract";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
+import type { BuyerProfile } from "@/lib/buyerProfile";
+import { DEFAULT_RULE_SET, detectContradictions } from "@/lib/rules";
+import type { RuleFlag, RuleResult } from "@/lib/rules";
+
+type Verdict = RuleResult["verdict"];
+
+// Field labels are partial: a field that is left out is not scored for that
+// case, and `null` means "nothing should be extracted here".
+type FieldLabels = Partial<Record<ExtractedField, unknown>>;
+
+type GoldenCase = {
+  id: string;
+  productText: string;
+  policyText: string;
+  profile?: BuyerProfile;
+  expected: {
+    claims?: FieldLabels;
+    policy?: FieldLabels;
+    verdict: Verdict;
+    flags: RuleFlag[];
+  };
+};
+
+type AdapterCase = {
+  id: string;
+  url: string;
+  html: string;
+  expected: Record<string, unknown>;
+};
+
+type Counts = { tp: number; fp: number; fn: number };
+
+type Score = Counts & { precision: number; recall: number };
+
+type CaseResult = {
+  expected: Verdict;
+  verdict: Verdict;
+  flags: RuleFlag[];
+  passed: boolean;
+};
+
+type Report = {
+  rulesVersion: string;
+  fields: Record<string, Score>;
+  flags: Record<string, Score>;
+  verdicts: {
+    accuracy: number;
+    matrix: Record<Verdict, Record<Verdict, number>>;
+  };
+  cases: Record<string, CaseResult>;
+};
+
+const ROOT = process.cwd();
+const GOLDEN_DIR = path.join(ROOT, "eval", "golden");
+const ADAPTER_DIR = path.join(ROOT, "fixtures", "adapters");
+const BASELINE_PATH = path.join(ROOT, "eval", "baseline.json");
+const VERDICTS: Verdict[] = ["good", "caution", "risk", "unclear"];
+const TOLERANCE = 1e-6;
+
+const readJson = <T>(file: string): T =>
+  JSON.parse(readFileSync(file, "utf8")) as T;
+
+// Evidence offsets change with every regex tweak and aren't part of what a
+// field means, so they are dropped before comparing.
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key, entry]) => key !== "evidence" && entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entry]) => [key, canonical(entry)])
+    );
+  }
+  return value;
+}
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+
+const present = (value: unknown) => value !== undefined && value !== null;
+
+function count(
+  scores: Record<string, Counts>,
+  key: string,
+  predicted: unknown,
+  label: unknown
+) {
+  if (label === undefined) return;
+  const entry = (scores[key] ??= { tp: 0, fp: 0, fn: 0 });
+  if (!present(predicted) && !present(label)) return;
+  if (!present(label)) {
+    entry.fp += 1;
+  } else if (!present(predicted)) {
+    entry.fn += 1;
+  } else if (same(predicted, label)) {
+    entry.tp += 1;
+  } else {
+    entry.fp += 1;
+    entry.fn += 1;
+  }
+}
+
+const toScore = ({ tp, fp, fn }: Counts): Score => ({
+  tp,
+  fp,
+  fn,
+  precision: tp + fp ? tp / (tp + fp) : 1,
+  recall: tp + fn ? tp / (tp + fn) : 1,
+});
+
+const scoreAll = (counts: Record<string, Counts>) =>
+  Object.fromEntries(
+    Object.keys(counts)
+      .sort()
+      .map((key) => [key, toScore(counts[key])])
+  );
+
+function loadGoldenCases(): GoldenCase[] {
+  if (!existsSync(GOLDEN_DIR)) return [];
+  return readdirSync(GOLDEN_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => ({
+      id: path.basename(file, ".json"),
+      ...readJson<Omit<GoldenCase, "id">>(path.join(GOLDEN_DIR, file)),
+    }));
+}
+
+function loadAdapterCases(): AdapterCase[] {
+  if (!existsSync(ADAPTER_DIR)) return [];
+  return readdirSync(ADAPTER_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .map((file) => {
+      const id = path.basename(file, ".json");
+      const manifest = readJson<Omit<AdapterCase, "id" | "html">>(
+        path.join(ADAPTER_DIR, file)
+      );
+      return {
+        id,
+        ...manifest,
+        html: readFileSync(path.join(ADAPTER_DIR, `${id}.html`), "utf8"),
+      };
+    });
+}
+
+function evaluate(): Report {
+  const fieldCounts: Record<string, Counts> = {};
+  const flagCounts: Record<string, Counts> = {};
+  const cases: Record<string, CaseResult> = {};
+  const matrix = Object.fromEntries(
+    VERDICTS.map((expected) => [
+      expected,
+      Object.fromEntries(VERDICTS.map((actual) => [actual, 0])),
+    ])
+  ) as Report["verdicts"]["matrix"];
+
+  for (const golden of loadGoldenCases()) {
+    const claims = extractClaims(golden.productText);
+    const policy = extractPolicy(golden.policyText);
+    const result = detectContradictions(
+      claims,
+      policy,
+      DEFAULT_RULE_SET,
+      golden.profile
+    );
+
+    for (const [side, labels, extracted] of [
+      ["claims", golden.expected.claims, claims],
+      ["policy", golden.expected.policy, policy],
+    ] as const) {
+      for (const [field, label] of Object.entries(labels ?? {})) {
+        count(
+          fieldCounts,
+          `${side}.${field}`,
+          extracted[field as ExtractedField],
+          label
+        );
+      }
+    }
+
+    const expectedFlags = new Set(golden.expected.flags);
+    const actualFlags = new Set(result.flags);
+    for (const flag of new Set([...expectedFlags, ...actualFlags])) {
+      const entry = (flagCounts[flag] ??= { tp: 0, fp: 0, fn: 0 });
+      if (expectedFlags.has(flag) && actualFlags.has(flag)) entry.tp += 1;
+      else if (actualFlags.has(flag)) entry.fp += 1;
+      else entry.fn += 1;
+    }
+
+    matrix[golden.expected.verdict][result.verdict] += 1;
+    cases[golden.id] = {
+      expected: golden.expected.verdict,
+      verdict: result.verdict,
+      flags: result.flags,
+      passed:
+        result.verdict === golden.expected.verdict &&
+        same([...expectedFlags].sort(), [...actualFlags].sort()),
+    };
+  }
+
+  for (const adapterCase of loadAdapterCases()) {
+    const info = extractProductInfo(adapterCase.html, adapterCase.url);
+    for (const [field, label] of Object.entries(adapterCase.expected)) {
+      count(
+        fieldCounts,
+        `product.${field}`,
+        info[field as keyof typeof info],
+        label
+      );
+    }
+  }
+
+  const total = Object.keys(cases).length;
+  const correct = VERDICTS.reduce(
+    (sum, verdict) => sum + matrix[verdict][verdict],
+    0
+  );
+  return {
+    rulesVersion: DEFAULT_RULE_SET.version,
+    fields: scoreAll(fieldCounts),
+    flags: scoreAll(flagCounts),
+    verdicts: { accuracy: total ? correct / total : 1, matrix },
+    cases,
+  };
+}
+
+function compare(baseline: Report, report: Report) {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const note = (list: string[], message: string) => list.push(message);
+
+  for (const [group, current, previous] of [
+    ["field", report.fields, baseline.fields],
+    ["flag", report.flags, baseline.flags],
+  ] as const) {
+    for (const key of Object.keys({ ...previous, ...current }).sort()) {
+      const before = previous[key];
+      const after = current[key];
+      if (!before || !after) continue;
+      for (const metric of ["precision", "recall"] as const) {
+        const delta = after[metric] - before[metric];
+        if (Math.abs(delta) <= TOLERANCE) continue;
+        note(
+          delta < 0 ? regressions : improvements,
+          `${group} ${key} ${metric} ${before[metric].toFixed(2)} → ${after[metric].toFixed(2)}`
+        );
+      }
+    }
+  }
+
+  for (const [id, result] of Object.entries(report.cases)) {
+    const before = baseline.cases[id];
+    if (!before || before.passed === result.passed) continue;
+    note(
+      result.passed ? improvements : regressions,
+      `case ${id}: ${before.verdict} [${before.flags.join(", ")}] → ${result.verdict} [${result.flags.join(", ")}] (expected ${result.expected})`
+    );
+  }
+
+  return { regressions, improvements };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`.padStart(7);
+
+function printScores(title: string, scores: Record<string, Score>) {
+  const width = Math.max(
+    title.length,
+    ...Object.keys(scores).map((key) => key.length)
+  );
+  console.log(`\n${title.padEnd(width)}  precision   recall   tp  fp  fn`);
+  for (const [key, score] of Object.entries(scores)) {
+    console.log(
+      `${key.padEnd(width)}  ${percent(score.precision)}  ${percent(score.recall)}  ${String(score.tp).padStart(3)} ${String(score.fp).padStart(3)} ${String(score.fn).padStart(3)}`
+    );
+  }
+}
+
+function printMatrix(report: Report) {
+  console.log(
+    `\nVerdicts (rows expected, columns actual) — accuracy ${percent(report.verdicts.accuracy).trim()}`
+  );
+  console.log(`${"".padEnd(9)}${VERDICTS.map((v) => v.padStart(9)).join("")}`);
+  for (const expected of VERDICTS) {
+    const row = VERDICTS.map((actual) =>
+      String(report.verdicts.matrix[expected][actual]).padStart(9)
+    ).join("");
+    console.log(`${expected.padEnd(9)}${row}`);
+  }
+  const failed = Object.entries(report.cases).filter(
+    ([, result]) => !result.passed
+  );
+  if (failed.length) {
+    console.log("\nCases not matching their labels:");
+    for (const [id, result] of failed) {
+      console.log(
+        `  ${id}: ${result.verdict} [${result.flags.join(", ")}], expected ${result.expected}`
+      );
+    }
+  }
+}
+
+function main() {
+  const args = new Set(process.argv.slice(2));
+  const report = evaluate();
+
+  if (args.has("--json")) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    console.log(`Rules ${report.rulesVersion}`);
+    printScores("Field", report.fields);
+    printScores("Flag", report.flags);
+    printMatrix(report);
+  }
+
+  if (args.has("--update-baseline")) {
+    writeFileSync(BASELINE_PATH, `${JSON.stringify(report, null, 2)}\n`);
+    console.log(`\nBaseline written to ${path.relative(ROOT, BASELINE_PATH)}`);
+    return;
+  }
+  if (!existsSync(BASELINE_PATH)) {
+    console.log("\nNo baseline yet; run with --update-baseline to store one.");
+    return;
+  }
+
+  const baseline = readJson<Report>(BASELINE_PATH);
+  if (baseline.rulesVersion !== report.rulesVersion) {
+    console.log(
+      `\nBaseline was recorded with rules ${baseline.rulesVersion ?? "unversioned"}.`
+    );
+  }
+  const { regressions, improvements } = compare(baseline, report);
+  if (improvements.length) {
+    console.log("\nImprovements over baseline:");
+    improvements.forEach((line) => console.log(`  + ${line}`));
+  }
+  if (regressions.length) {
+    console.log("\nRegressions against baseline:");
+    regressions.forEach((line) => console.log(`  - ${line}`));
+    process.exitCode = 1;
+  } else {
+    console.log("\nNo regressions against baseline.");
+  }
+}
+
+main();
@@ -0,0 +1,294 @@
+import { findPreselectedAddon } from "@/lib/darkPatterns";
+import { extractClaims, extractPolicy } from "@/lib/extract";
+import { parseHtml, visibleText } from "@/lib/html";
+import { parseMicrodata } from "@/lib/microdata";
+import { parseAmount, parseMoney } from "@/lib/money";
+import { BUILTIN_ADAPTERS } from "@/lib/product/adapters";
+import { extractProductInfo } from "@/lib/product/extractProductInfo";
+import { detectPlatform } from "@/lib/server/platform";
+import { findPolicyLinks, readPolicyText } from "@/lib/server/policyDiscovery";
+import { parseJsonLd } from "@/lib/structuredData";
+
+type Target = {
+  name: string;
+  run: (input: string) => unknown;
+};
+
+type Input = {
+  label: string;
+  text: string;
+  budgetMs: number;
+};
+
+type Failure = {
+  target: string;
+  input: string;
+  reason: string;
+};
+
+// Random inputs are small and should be near-instant; adversarial inputs are
+// large and shaped to trigger backtracking, so they get a budget that a
+// linear pass fits easily and a quadratic one does not.
+const RANDOM_LENGTH = 4_000;
+const RANDOM_BUDGET_MS = 100;
+const ADVERSARIAL_LENGTH = 200_000;
+const ADVERSARIAL_BUDGET_MS = 2_000;
+
+const PAGE_URL = "https://shop.example.com/products/item";
+
+// Tokens the extraction patterns key on, so random text actually reaches
+// the interesting branches instead of failing on the first literal.
+const VOCABULARY = [
+  "return",
+  "returns",
+  "within",
+  "30",
+  "days",
+  "day",
+  "thirty",
+  "twenty-four",
+  "months",
+  "year",
+  "warranty",
+  "limited",
+  "manufacturer",
+  "parts",
+  "labour",
+  "refund",
+  "store credit",
+  "exchange only",
+  "restocking fee",
+  "15%",
+  "no",
+  "not",
+  "non-returnable",
+  "except",
+  "unless",
+  "final sale",
+  "in stock",
+  "out of stock",
+  "subject to availability",
+  "price match",
+  "MRP",
+  "M.R.P.",
+  "list price",
+  "was",
+  "now",
+  "% off",
+  "save",
+  "only 2 left",
+  "ends in",
+  "02:13:45",
+  "people are viewing",
+  "by default",
+  '<input type="checkbox" checked>',
+  "<label>",
+  "prices subject to change",
+  "free shipping",
+  "orders over",
+  "cod fee",
+  "$",
+  "₹",
+  "Rs.",
+  "EUR",
+  "1,299.00",
+  "1.299,00",
+  "1,29,999",
+  "0.99",
+  ".",
+  ",",
+  ";",
+  ":",
+  "-",
+  " ",
+  "\n",
+  "<",
+  ">",
+  '"',
+  "'",
+  '<a href="/returns">',
+  "</a>",
+  '<div class="price">',
+  "</div>",
+  '<meta property="og:price:amount" content="',
+  '<script type="application/ld+json">',
+  "</script>",
+  '{"@type":"Product","offers":{"price":',
+  '<span itemprop="price" content="',
+  "<!--",
+  "-->",
+  "&amp;",
+  "&#",
+  "window.__myx = {",
+  "__NEXT_DATA__",
+];
+
+const repeat = (unit: string) =>
+  unit.repeat(Math.ceil(ADVERSARIAL_LENGTH / unit.length));
+
+// Shapes that make naive patterns retry from every position: long runs with
+// no terminator, and openers that never close.
+const ADVERSARIAL: Record<string, string> = {
+  digits: repeat("9"),
+  "digit groups": `1${repeat(",11")}x`,
+  "currency symbols": repeat("$"),
+  "currency and digits": repeat("$9"),
+  "return keyword": repeat("return "),
+  "returns within": repeat("returns within "),
+  "return policy": repeat("return policy "),
+  "warranty keyword": repeat("warranty "),
+  "number words": repeat("twenty "),
+  "duration without unit": repeat("30 "),
+  negations: repeat("non-"),
+  "restocking fee": repeat("restocking fee "),
+  "free shipping": repeat("free shipping on orders over "),
+  "price labels": repeat("MRP price was "),
+  discounts: repeat("50% off save "),
+  "urgency counts": repeat("only 12 "),
+  "urgency timers": repeat("ends in 12:"),
+  "checked boxes": repeat('<label><input type="checkbox" checked>'),
+  refund: repeat("refund "),
+  whitespace: `a${" ".repeat(ADVERSARIAL_LENGTH)}b`,
+  "comma clauses": repeat(", "),
+  "unclosed tags": repeat("<a "),
+  "unclosed quotes": repeat('<a "'),
+  "unclosed comments": repeat("<!--"),
+  "unclosed scripts": repeat("<script type="),
+  "unclosed JSON-LD": repeat('<script type="application/ld+json">'),
+  "nested anchors": repeat('<a href="/policy">'),
+  "nested divs": repeat("<div>"),
+  entities: repeat("&#"),
+  "meta openers": repeat('<meta property="og:price:amount" content="'),
+  "script assignment": repeat("window.__myx = {"),
+  "open braces": `<script>window.__myx = ${repeat("{")}</script>`,
+};
+
+const TARGETS: Target[] = [
+  { name: "extractClaims", run: extractClaims },
+  { name: "extractPolicy", run: extractPolicy },
+  { name: "parseMoney", run: parseMoney },
+  { name: "parseAmount", run: parseAmount },
+  { name: "parseHtml", run: (input) => visibleText(parseHtml(input)) },
+  {
+    name: "findPreselectedAddon",
+    run: (input) => findPreselectedAddon(parseHtml(input)),
+  },
+  { name: "parseJsonLd", run: parseJsonLd },
+  { name: "parseMicrodata", run: (input) => parseMicrodata(parseHtml(input)) },
+  { name: "detectPlatform", run: detectPlatform },
+  { name: "findPolicyLinks", run: (input) => findPolicyLinks(input, PAGE_URL) },
+  { name: "readPolicyText", run: readPolicyText },
+  {
+    name: "extractProductInfo (generic)",
+    run: (input) => extractProductInfo(input, PAGE_URL),
+  },
+  ...BUILTIN_ADAPTERS.map((adapter) => ({
+    name: `extractProductInfo (${adapter.id})`,
+    run: (input: string) =>
+      extractProductInfo(
+        input,
+        `https://www.${adapter.hosts[0].replace("*", "com")}/item`
+      ),
+  })),
+];
+
+// mulberry32: small, fast and seedable, so a failure can be replayed with
+// the same --seed.
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomText(random: () => number): string {
+  let text = "";
+  while (text.length < RANDOM_LENGTH) {
+    const roll = random();
+    if (roll < 0.7) {
+      text += VOCABULARY[Math.floor(random() * VOCABULARY.length)];
+    } else if (roll < 0.85) {
+      text += " ";
+    } else {
+      text += String.fromCharCode(32 + Math.floor(random() * 0x24e0));
+    }
+  }
+  return text;
+}
+
+function buildInputs(seed: number, runs: number): Input[] {
+  const random = createRandom(seed);
+  const inputs: Input[] = Object.entries(ADVERSARIAL).map(([label, text]) => ({
+    label,
+    text,
+    budgetMs: ADVERSARIAL_BUDGET_MS,
+  }));
+  for (let run = 0; run < runs; run += 1) {
+    inputs.push({
+      label: `random #${run} (seed ${seed})`,
+      text: randomText(random),
+      budgetMs: RANDOM_BUDGET_MS,
+    });
+  }
+  return inputs;
+}
+
+const readNumber = (args: string[], name: string, fallback: number) => {
+  const index = args.indexOf(name);
+  const value = index === -1 ? NaN : Number(args[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+function main() {
+  const args = process.argv.slice(2);
+  const seed = readNumber(args, "--seed", Date.now() % 1_000_000);
+  const runs = readNumber(args, "--runs", 200);
+  const inputs = buildInputs(seed, runs);
+  const failures: Failure[] = [];
+
+  for (const target of TARGETS) {
+    let slowest = 0;
+    for (const input of inputs) {
+      const started = performance.now();
+      try {
+        target.run(input.text);
+      } catch (error) {
+        failures.push({
+          target: target.name,
+          input: input.label,
+          reason: `threw ${error instanceof Error ? error.message : error}`,
+        });
+        continue;
+      }
+      const elapsed = performance.now() - started;
+      slowest = Math.max(slowest, elapsed);
+      if (elapsed > input.budgetMs) {
+        failures.push({
+          target: target.name,
+          input: input.label,
+          reason: `took ${elapsed.toFixed(0)}ms (budget ${input.budgetMs}ms)`,
+        });
+      }
+    }
+    console.log(`${target.name.padEnd(34)} slowest ${slowest.toFixed(1)}ms`);
+  }
+
+  console.log(
+    `\n${TARGETS.length} targets × ${inputs.length} inputs, seed ${seed}`
+  );
+  if (failures.length) {
+    console.log("\nFailures:");
+    for (const failure of failures) {
+      console.log(`  ${failure.target} on ${failure.input}: ${failure.reason}`);
+    }
+    process.exitCode = 1;
+  } else {
+    console.log("All extractors finished within budget.");
+  }
+}
+
+main();